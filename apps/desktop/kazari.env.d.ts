@@ -1,3 +1,5 @@
+import type { BusBridge } from "@/shared/types.ts";
+
 declare global {
   interface Window {
     kazari: {
@@ -6,6 +8,7 @@ declare global {
         error: (message: string, ...args: any[]) => void;
         debug: (message: string, ...args: any[]) => void;
       };
+      bus: BusBridge;
     };
   }
 }
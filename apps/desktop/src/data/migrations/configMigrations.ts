@@ -0,0 +1,72 @@
+import { getSystemTimeZone } from "@/shared/dateUtils.ts";
+
+type Configs = Record<string, unknown>;
+
+// Stored configs predate the schemas, so every level is checked before use
+const isRecord = (value: unknown): value is Configs =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+const asRecord = (value: unknown): Configs => (isRecord(value) ? value : {});
+const asRecords = (value: unknown): Configs[] =>
+  Array.isArray(value) ? value.filter(isRecord) : [];
+
+export type ConfigMigration = {
+  version: number;
+  description: string;
+  migrate: (configs: Configs) => Configs;
+};
+
+// Append only: each migration moves configs from version - 1 to version
+export const configMigrations: ConfigMigration[] = [
+  {
+    version: 1,
+    description: "Zero-pad schedule times and drop days without time blocks",
+    migrate: (configs) => {
+      const padTime = (time: unknown) =>
+        typeof time === "string"
+          ? time.replace(/^(\d):/, (_match, hours) => `0${hours}:`)
+          : time;
+      const schedule = asRecord(configs.schedule);
+      return {
+        ...configs,
+        schedule: {
+          ...schedule,
+          availability: asRecords(schedule.availability)
+            .map((day) => ({ ...day, timeBlocks: asRecords(day.timeBlocks) }))
+            .filter((day) => day.timeBlocks.length)
+            .map((day) => ({
+              ...day,
+              timeBlocks: day.timeBlocks.map((block) => ({
+                startTime: padTime(block.startTime),
+                endTime: padTime(block.endTime),
+              })),
+            })),
+        },
+      };
+    },
+  },
+  {
+    version: 2,
+    description: "Pin the schedule to the time zone it was written in",
+    migrate: (configs) => {
+      const schedule = asRecord(configs.schedule);
+      return {
+        ...configs,
+        schedule: {
+          ...schedule,
+          timeZone: schedule.timeZone ?? getSystemTimeZone(),
+        },
+      };
+    },
+  },
+];
+
+export const CONFIG_VERSION = configMigrations.length
+  ? configMigrations[configMigrations.length - 1].version
+  : 0;
+
+export function migrateConfigs(configs: Configs, fromVersion: number): Configs {
+  return configMigrations
+    .filter((migration) => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((migrated, migration) => migration.migrate(migrated), configs);
+}
@@ -1,11 +1,17 @@
 import { z } from "zod/v4";
-import { Phases } from "@/shared/enums.ts";
+import { PhaseSchema, PhaseSequenceSchema } from "@/data/models/Phase.ts";
+import { ScheduleConfigSchema } from "@/data/models/Schedule.ts";
 
-const PhaseSchema = z.object({
-  type: z.enum(Phases),
-  allocatedTime: z.number().int().nonnegative(), // in milliseconds
-});
+export type AppConfig = z.infer<typeof AppConfigSchema>;
 
 export const AppConfigSchema = z.object({
   phases: z.array(PhaseSchema).default([]),
+  phaseSequence: PhaseSequenceSchema.default({ longBreakInterval: 4 }),
+  schedule: ScheduleConfigSchema.default({
+    availability: [],
+    overrides: [],
+    holidays: [],
+  }),
+  autopilot: z.boolean().default(false), // Start and stop the Timer with the schedule
+  completeParentTasks: z.boolean().default(false), // Once all of their subtasks are completed
 });
@@ -0,0 +1,22 @@
+import { z } from "zod/v4";
+import { MAX_PLANNED_POMODOROS } from "@/shared/planningUtils.ts";
+
+export type PlannedTask = z.infer<typeof PlannedTaskSchema>;
+export type DailyPlanning = z.infer<typeof DailyPlanningSchema>;
+
+export const PlannedTaskSchema = z.object({
+  taskId: z.string(),
+  estimatedPomodoros: z.number().int().min(1).max(MAX_PLANNED_POMODOROS),
+});
+
+export const DailyPlanningSchema = z.object({
+  date: z.string(), // YYYY-MM-DD in the schedule's time zone
+  completedAt: z.number().int().nonnegative(), // epoch milliseconds
+  tasks: z
+    .array(PlannedTaskSchema)
+    .refine(
+      (tasks) =>
+        new Set(tasks.map(({ taskId }) => taskId)).size === tasks.length,
+      { message: "Each task can only be planned once" },
+    ),
+});
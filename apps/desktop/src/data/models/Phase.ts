@@ -4,5 +4,13 @@ import { Phases } from "@/shared/enums.js";
 export const PhaseSchema = z.object({
   type: z.enum(Phases),
   allocatedTime: z.number().int().nonnegative(), // in milliseconds
+  canOverrun: z.boolean().optional(),
+  overrunGrace: z.number().int().nonnegative().optional(), // in milliseconds
+  overrunCap: z.number().int().nonnegative().optional(), // in milliseconds
 });
 export type PhaseType = z.infer<typeof PhaseSchema>;
+
+export const PhaseSequenceSchema = z.object({
+  longBreakInterval: z.number().int().positive().default(4), // in focus cycles
+});
+export type PhaseSequenceType = z.infer<typeof PhaseSequenceSchema>;
@@ -0,0 +1,100 @@
+import { z } from "zod/v4";
+import { Phases } from "@/shared/enums.ts";
+import { DAYS_OF_WEEK, isValidTimeZone } from "@/shared/dateUtils.ts";
+import {
+  getAvailabilityErrors,
+  getTimeBlockErrors,
+  TIME_PATTERN,
+} from "@/shared/scheduleUtils.ts";
+
+export type TimeBlock = z.infer<typeof TimeBlockSchema>;
+export type DayAvailability = z.infer<typeof DayAvailabilitySchema>;
+export type DateOverride = z.infer<typeof DateOverrideSchema>;
+export type Holiday = z.infer<typeof HolidaySchema>;
+export type ScheduleConfig = z.infer<typeof ScheduleConfigSchema>;
+export type ScheduleSlot = z.infer<typeof ScheduleSlotSchema>;
+export type DayPlan = z.infer<typeof DayPlanSchema>;
+
+export const TimeBlockSchema = z
+  .object({
+    startTime: z.string().regex(TIME_PATTERN, "Expected an HH:mm time"),
+    endTime: z.string().regex(TIME_PATTERN, "Expected an HH:mm time"),
+  })
+  // Blocks ending before they start run overnight
+  .refine((block) => block.endTime !== block.startTime, {
+    message: "Time block must end at a different time",
+    path: ["endTime"],
+  });
+
+const TimeBlocksSchema = z
+  .array(TimeBlockSchema)
+  .superRefine((timeBlocks, context) => {
+    getTimeBlockErrors(timeBlocks).forEach((message) =>
+      context.addIssue({ code: "custom", message }),
+    );
+  });
+
+const DateKeySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+const uniqueDates = (entries: { date: string }[]) =>
+  new Set(entries.map(({ date }) => date)).size === entries.length;
+
+export const DayAvailabilitySchema = z.object({
+  day: z.enum(DAYS_OF_WEEK),
+  timeBlocks: TimeBlocksSchema,
+});
+
+// Replaces the weekly availability on a single date, no blocks means a day off
+export const DateOverrideSchema = z.object({
+  date: DateKeySchema,
+  label: z.string().max(100).optional(),
+  timeBlocks: TimeBlocksSchema,
+});
+
+export const HolidaySchema = z.object({
+  date: DateKeySchema,
+  name: z.string().max(100),
+});
+
+export const ScheduleConfigSchema = z.object({
+  // IANA zone the availability is written in, the system zone when unset
+  timeZone: z
+    .string()
+    .refine(isValidTimeZone, { message: "Unknown time zone" })
+    .optional(),
+  availability: z
+    .array(DayAvailabilitySchema)
+    .default([])
+    .refine(
+      (availability) =>
+        new Set(availability.map(({ day }) => day)).size ===
+        availability.length,
+      { message: "Each day can only appear once in the availability" },
+    )
+    .superRefine((availability, context) => {
+      getAvailabilityErrors(availability).forEach((message) =>
+        context.addIssue({ code: "custom", message }),
+      );
+    }),
+  overrides: z.array(DateOverrideSchema).default([]).refine(uniqueDates, {
+    message: "Each date can only be overridden once",
+  }),
+  holidays: z.array(HolidaySchema).default([]),
+});
+
+export const ScheduleSlotSchema = z.object({
+  id: z.string(), // z.uuid({ version: "v4" }),
+  type: z.enum(Phases),
+  allocatedTime: z.number().int().nonnegative(), // in milliseconds
+  startTime: z.coerce.date(), // stored as an ISO string
+  endTime: z.coerce.date(), // stored as an ISO string
+  taskIds: z.array(z.string()).default([]), // Tasks chosen for a focus slot
+});
+
+export const DayPlanSchema = z.object({
+  date: z.string(), // YYYY-MM-DD
+  generatedAt: z.number().int().nonnegative(), // epoch milliseconds
+  slots: z.array(ScheduleSlotSchema),
+});
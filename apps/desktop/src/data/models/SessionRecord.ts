@@ -0,0 +1,16 @@
+import { z } from "zod/v4";
+import { Phases, SessionStatus } from "@/shared/enums.ts";
+
+export type SessionRecord = z.infer<typeof SessionRecordSchema>;
+
+export const SessionRecordSchema = z.object({
+  id: z.string(), // z.uuid({ version: "v4" }),
+  type: z.enum(Phases),
+  plannedDuration: z.number().int().nonnegative(), // in milliseconds
+  actualDuration: z.number().int().nonnegative(), // in milliseconds
+  overrunTime: z.number().int().nonnegative(), // in milliseconds
+  startTime: z.number().int().nonnegative(), // epoch milliseconds
+  endTime: z.number().int().nonnegative(), // epoch milliseconds
+  taskId: z.string().optional(),
+  status: z.enum(SessionStatus),
+});
@@ -2,16 +2,51 @@ import { z } from "zod/v4";
 import { TaskStates } from "@/shared/enums.ts";
 
 export type Task = z.infer<typeof TaskSchema>;
+// The fields a user edits, the tracked ones are left to the app
+export type TaskInput = Pick<Task, "title"> &
+  Partial<
+    Omit<
+      Task,
+      | "id"
+      | "createdAt"
+      | "updatedAt"
+      | "completedAt"
+      | "completedPomodoros"
+      | "actualFocusTime"
+    >
+  >;
+
+// Tags are matched case-insensitively, so they're stored lower-cased
+const TagSchema = z.string().trim().toLowerCase().min(1).max(30);
 
 export const TaskSchema = z.object({
   id: z.string(), // z.uuid({ version: "v4" }),
   title: z.string().min(1).max(100),
   description: z.string().max(500).optional(),
-  // createdAt: z.date(),
-  // updatedAt: z.date(),
-  dueDate: z.date().optional(),
+  // Set by the TasksStore, missing on tasks saved before they were tracked
+  createdAt: z.coerce.date().optional(), // stored as an ISO string
+  updatedAt: z.coerce.date().optional(), // stored as an ISO string
+  dueDate: z.coerce.date().optional(), // stored as an ISO string
+  // Set by the TasksStore when the task is completed, cleared when reopened
+  completedAt: z.coerce.date().optional(), // stored as an ISO string
   state: z.enum(TaskStates).default(TaskStates.PENDING),
   priority: z.string().default("medium"),
-  // tags: z.array(z.string()).default([]),
-  // subtasks: z.array(z.string()).default([]), // Array of subtask IDs
+  estimatedPomodoros: z.number().int().min(1).max(99).optional(),
+  completedPomodoros: z.number().int().nonnegative().default(0),
+  actualFocusTime: z.number().int().nonnegative().default(0), // in milliseconds
+  tags: z
+    .array(TagSchema)
+    .max(20)
+    .transform((tags) => [...new Set(tags)])
+    .default([]),
+  subtasks: z.array(z.string()).default([]), // Array of subtask IDs
+});
+
+export const TaskInputSchema = TaskSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  completedAt: true,
+  completedPomodoros: true,
+  actualFocusTime: true,
 });
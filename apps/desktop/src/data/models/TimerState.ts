@@ -0,0 +1,14 @@
+import { z } from "zod/v4";
+
+export const TimerStateSchema = z.object({
+  phaseIndex: z.number().int().nonnegative(),
+  startTime: z.number().int().nonnegative(), // epoch milliseconds
+  pausedAt: z.number().int().nonnegative(), // epoch milliseconds, 0 if running
+  pausedDuration: z.number().int().nonnegative(), // in milliseconds
+  extendedTime: z.number().int().nonnegative().default(0), // in milliseconds
+  completedCycles: z.number().int().nonnegative(),
+  // The cycle count the last long break was taken at
+  lastLongBreakCycles: z.number().int().nonnegative().default(0),
+  savedAt: z.number().int().nonnegative(), // epoch milliseconds
+});
+export type TimerState = z.infer<typeof TimerStateSchema>;
@@ -5,10 +5,23 @@ import {
   WindowStateSchema,
 } from "@/data/models/Windows.ts";
 import { AppConfigSchema } from "@/data/models/AppConfig.ts";
+import {
+  CONFIG_VERSION,
+  migrateConfigs,
+} from "@/data/migrations/configMigrations.ts";
+import { logger } from "@/shared/logger.ts";
 
 const AppStoreSchema = z.object({
   windows: z.record(z.string(), WindowConfigSchema),
   configs: AppConfigSchema,
+  configVersion: z.number().int().nonnegative(),
+  // The configs as they were before the last migration
+  configsBackup: z
+    .object({
+      version: z.number().int().nonnegative(),
+      configs: z.record(z.string(), z.unknown()),
+    })
+    .nullable(),
 });
 type AppStoreSchemaType = z.infer<typeof AppStoreSchema>;
 
@@ -21,10 +34,37 @@ export class AppStore {
 
   constructor() {
     this.store = new Store<AppStoreSchemaType>({});
+    this.migrateConfigs();
+  }
+
+  private migrateConfigs() {
+    const version = this.store.get("configVersion") ?? 0;
+    if (version >= CONFIG_VERSION) return;
+    const configs = this.store.get("configs") ?? {};
+    let migrated;
+    try {
+      migrated = migrateConfigs(configs, version);
+    } catch (error) {
+      logger.error(`Failed to migrate configs from v${version}:`, error);
+      return;
+    }
+    const parsed = this.schema.shape.configs.safeParse(migrated);
+    if (!parsed.success) {
+      // Leave the stored configs untouched rather than overwrite them
+      logger.error(
+        `Migrated configs from v${version} are invalid:`,
+        parsed.error,
+      );
+      return;
+    }
+    this.store.set("configsBackup", { version, configs });
+    this.store.set("configs", parsed.data);
+    this.store.set("configVersion", CONFIG_VERSION);
+    logger.info(`Migrated configs from v${version} to v${CONFIG_VERSION}`);
   }
 
-  get(key: keyof AppStoreSchemaType) {
-    return this.store.get(key, {});
+  get<K extends keyof AppStoreSchemaType>(key: K): AppStoreSchemaType[K] {
+    return this.store.get(key, {} as AppStoreSchemaType[K]);
   }
 
   set(key: keyof AppStoreSchemaType, value: any) {
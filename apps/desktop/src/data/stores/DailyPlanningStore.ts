@@ -0,0 +1,36 @@
+import { z } from "zod/v4";
+import Store from "electron-store";
+import {
+  DailyPlanningSchema,
+  type DailyPlanning,
+} from "@/data/models/DailyPlanning.ts";
+import { BaseStore } from "./BaseStore.ts";
+
+const DailyPlanningStoreSchema = z.object({
+  dailyPlanning: DailyPlanningSchema.nullable(),
+});
+
+export class DailyPlanningStore extends BaseStore {
+  private schema = DailyPlanningStoreSchema;
+  private store: Store<z.infer<typeof this.schema>>;
+
+  constructor() {
+    super();
+    this.store = new Store<z.infer<typeof this.schema>>({});
+  }
+
+  getDailyPlanning(): DailyPlanning | null {
+    const dailyPlanning = this.store.get("dailyPlanning");
+    if (!dailyPlanning) return null;
+    const parsed = this.schema.shape.dailyPlanning.safeParse(dailyPlanning);
+    return parsed.success ? parsed.data : null;
+  }
+
+  saveDailyPlanning(dailyPlanning: DailyPlanning) {
+    const parsed = this.schema.shape.dailyPlanning.safeParse(dailyPlanning);
+    if (!parsed.success) {
+      throw new Error(`Invalid daily planning: ${parsed.error}`);
+    }
+    this.store.set("dailyPlanning", parsed.data);
+  }
+}
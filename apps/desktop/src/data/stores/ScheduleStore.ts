@@ -1,19 +1,37 @@
 import { z } from "zod/v4";
 import Store from "electron-store";
+import { DayPlanSchema, type DayPlan } from "@/data/models/Schedule.ts";
 import { BaseStore } from "./BaseStore.ts";
 
+const ScheduleStoreSchema = z.object({
+  dayPlan: DayPlanSchema.nullable(),
+});
+
 export class ScheduleStore extends BaseStore {
-  private schema = z.object({
-    slots: z.array(
-      z.object({
-        id: z.string(),
-      }),
-    ),
-  });
+  private schema = ScheduleStoreSchema;
   private store: Store<z.infer<typeof this.schema>>;
 
   constructor() {
     super();
     this.store = new Store<z.infer<typeof this.schema>>({});
   }
+
+  getDayPlan(): DayPlan | null {
+    const dayPlan = this.store.get("dayPlan");
+    if (!dayPlan) return null;
+    const parsed = this.schema.shape.dayPlan.safeParse(dayPlan);
+    return parsed.success ? parsed.data : null;
+  }
+
+  saveDayPlan(dayPlan: DayPlan) {
+    const parsed = this.schema.shape.dayPlan.safeParse(dayPlan);
+    if (!parsed.success) {
+      throw new Error(`Invalid day plan: ${parsed.error}`);
+    }
+    this.store.set("dayPlan", parsed.data);
+  }
+
+  clearDayPlan() {
+    this.store.set("dayPlan", null);
+  }
 }
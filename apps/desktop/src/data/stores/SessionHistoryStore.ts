@@ -0,0 +1,46 @@
+import { z } from "zod/v4";
+import Store from "electron-store";
+import {
+  SessionRecordSchema,
+  type SessionRecord,
+} from "@/data/models/SessionRecord.ts";
+import { BaseStore } from "./BaseStore.ts";
+
+const SessionHistoryStoreSchema = z.object({
+  sessions: z.array(SessionRecordSchema),
+});
+
+export class SessionHistoryStore extends BaseStore {
+  private schema = SessionHistoryStoreSchema;
+  private store: Store<z.infer<typeof this.schema>>;
+
+  constructor() {
+    super();
+    this.store = new Store<z.infer<typeof this.schema>>({});
+  }
+
+  getRecords(): SessionRecord[] {
+    const records = this.store.get("sessions") || [];
+    return records.map((record) => this.parseRecord(record));
+  }
+
+  getRecordsBetween(from: number, to: number): SessionRecord[] {
+    return this.getRecords().filter(
+      (record) => record.startTime < to && record.endTime >= from,
+    );
+  }
+
+  addRecord(record: SessionRecord) {
+    const records = this.getRecords();
+    records.push(this.parseRecord(record));
+    this.store.set("sessions", records);
+  }
+
+  parseRecord(record: SessionRecord) {
+    const parsed = this.schema.shape.sessions.element.safeParse(record);
+    if (!parsed.success) {
+      throw new Error(`Invalid session record: ${parsed.error}`);
+    }
+    return parsed.data;
+  }
+}
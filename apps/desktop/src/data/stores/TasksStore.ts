@@ -44,6 +44,29 @@ export class TasksStore extends BaseStore {
     return tasks.filter((task) => task.state === TaskStates.IN_PROGRESS);
   }
 
+  getTasksByTag(tag: string) {
+    const normalizedTag = tag.trim().toLowerCase();
+    const tasks = this.getTasks();
+    return tasks.filter((task) => task.tags.includes(normalizedTag));
+  }
+
+  getTags() {
+    const tags = this.getTasks().flatMap((task) => task.tags);
+    return [...new Set(tags)].sort();
+  }
+
+  getSubtasks(parentTask: Task) {
+    const tasks = this.getTasks();
+    return parentTask.subtasks
+      .map((id) => tasks.find((task) => task.id === id))
+      .filter((task) => task !== undefined);
+  }
+
+  getParentTasks(id: string) {
+    const tasks = this.getTasks();
+    return tasks.filter((task) => task.subtasks.includes(id));
+  }
+
   resolveTask(task: Task): Task {
     const existingTask = this.getTaskById(task.id);
     if (!existingTask) {
@@ -71,10 +94,24 @@ export class TasksStore extends BaseStore {
     this.saveTask(task);
   }
 
+  setTaskState(targetTask: Task, state: TaskStates) {
+    const task = this.resolveTask(targetTask);
+    task.state = state;
+    this.saveTask(task);
+  }
+
+  // Focus time counts even when interrupted, only completed sessions count as pomodoros
+  addFocusTime(targetTask: Task, duration: number, isPomodoro: boolean) {
+    const task = this.resolveTask(targetTask);
+    task.actualFocusTime += duration;
+    if (isPomodoro) task.completedPomodoros += 1;
+    this.saveTask(task);
+  }
+
   addTasks(task: Task, ...otherTasks: Task[]) {
     const tasks = this.getTasks();
     [task, ...otherTasks].forEach((task) => {
-      tasks.push(this.parseTask(task));
+      tasks.push(this.parseTask(this.stampTask(task)));
     });
     this.store.set("tasks", tasks);
   }
@@ -91,10 +128,50 @@ export class TasksStore extends BaseStore {
     const tasks = this.getTasks();
     const existingIndex = tasks.findIndex((t) => t.id === task.id);
     if (existingIndex !== -1) {
-      tasks[existingIndex] = this.parseTask(task);
+      tasks[existingIndex] = this.parseTask(
+        this.stampTask(task, tasks[existingIndex]),
+      );
     } else {
-      tasks.push(this.parseTask(task));
+      tasks.push(this.parseTask(this.stampTask(task)));
     }
     this.store.set("tasks", tasks);
   }
+
+  // Also drops the task from the subtasks of its parents
+  deleteTask(id: string) {
+    const tasks = this.getTasks();
+    this.store.set(
+      "tasks",
+      tasks
+        .filter((task) => task.id !== id)
+        .map((task) =>
+          task.subtasks.includes(id)
+            ? this.stampTask(
+                {
+                  ...task,
+                  subtasks: task.subtasks.filter((subtask) => subtask !== id),
+                },
+                task,
+              )
+            : task,
+        ),
+    );
+  }
+
+  // The creation and completion times of a stored task win over whatever the caller sent
+  private stampTask(task: Task, existingTask?: Task): Task {
+    const now = new Date();
+    const wasCompleted = existingTask?.state === TaskStates.COMPLETED;
+    return {
+      ...task,
+      createdAt: existingTask?.createdAt ?? task.createdAt ?? now,
+      updatedAt: now,
+      completedAt:
+        task.state === TaskStates.COMPLETED
+          ? ((wasCompleted ? existingTask?.completedAt : undefined) ??
+            task.completedAt ??
+            now)
+          : undefined,
+    };
+  }
 }
@@ -0,0 +1,37 @@
+import { z } from "zod/v4";
+import Store from "electron-store";
+import { TimerStateSchema, type TimerState } from "@/data/models/TimerState.ts";
+import { BaseStore } from "./BaseStore.ts";
+
+const TimerStoreSchema = z.object({
+  timer: TimerStateSchema.nullable(),
+});
+
+export class TimerStore extends BaseStore {
+  private schema = TimerStoreSchema;
+  private store: Store<z.infer<typeof this.schema>>;
+
+  constructor() {
+    super();
+    this.store = new Store<z.infer<typeof this.schema>>({});
+  }
+
+  getState(): TimerState | null {
+    const state = this.store.get("timer");
+    if (!state) return null;
+    const parsed = this.schema.shape.timer.safeParse(state);
+    return parsed.success ? parsed.data : null;
+  }
+
+  saveState(state: TimerState) {
+    const parsed = this.schema.shape.timer.safeParse(state);
+    if (!parsed.success) {
+      throw new Error(`Invalid timer state: ${parsed.error}`);
+    }
+    this.store.set("timer", parsed.data);
+  }
+
+  clearState() {
+    this.store.set("timer", null);
+  }
+}
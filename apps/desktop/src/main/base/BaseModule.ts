@@ -1,9 +1,16 @@
-import { Bus } from "@/main/core/Bus.ts";
+import { Bus, type BusSubscription } from "@/main/core/Bus.ts";
 import { ModuleFactory } from "@/main/base/ModuleFactory.ts";
+import type { BusScopes } from "@/shared/enums.ts";
+import type {
+  BusEventKey,
+  BusEvents,
+  BusListener,
+  BusPatternListener,
+} from "@/main/core/BusEvents.ts";
 
 export interface ModuleConstructor<T extends BaseModule> {
   new (...args: unknown[]): T;
-  instance?: T | null;
+  instance?: BaseModule | null;
   setBus: (bus: Bus) => void;
 }
 
@@ -18,24 +25,52 @@ export class BaseModule {
     return this.bus;
   }
 
-  emit(event: string, ...args: any[]) {
+  emit<K extends BusEventKey>(event: K, ...args: BusEvents[K]) {
     this.bus.emit(event, ...args);
   }
 
-  on(event: string, listener: (...args: any[]) => void) {
-    this.bus.on(event, listener);
+  emitWithScope<K extends BusEventKey>(
+    scope: BusScopes,
+    event: K,
+    ...args: BusEvents[K]
+  ) {
+    this.bus.emitWithScope(scope, event, ...args);
   }
 
-  off(event: string, listener: (...args: any[]) => void) {
+  on<K extends BusEventKey>(
+    event: K,
+    listener: BusListener<K>,
+  ): BusSubscription {
+    return this.bus.on(event, listener);
+  }
+
+  once<K extends BusEventKey>(
+    event: K,
+    listener: BusListener<K>,
+  ): BusSubscription {
+    return this.bus.once(event, listener);
+  }
+
+  off<K extends BusEventKey>(event: K, listener: BusListener<K>) {
     this.bus.off(event, listener);
   }
 
+  onPattern(pattern: string, listener: BusPatternListener): BusSubscription {
+    return this.bus.onPattern(pattern, listener);
+  }
+
+  offPattern(pattern: string, listener: BusPatternListener) {
+    this.bus.offPattern(pattern, listener);
+  }
+
   destroy() {
     this.bus?.destroy();
+    const ModuleClass = this.constructor as ModuleConstructor<BaseModule>;
+    if (ModuleClass.instance === this) ModuleClass.instance = null;
   }
 
   // STATIC PROPERTIES
-  private static instance: BaseModule;
+  static instance?: BaseModule | null;
   private static bus: Bus | null = null;
   static getInstance<T extends BaseModule>(
     this: ModuleConstructor<T>,
@@ -45,7 +80,7 @@ export class BaseModule {
     if (!this.instance) {
       this.instance = ModuleFactory.create<T>(ModuleClass, ...args);
     }
-    return this.instance;
+    return this.instance as T;
   }
 
   static setBus(bus: Bus) {
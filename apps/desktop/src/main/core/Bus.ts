@@ -1,18 +1,69 @@
 import { EventEmitter } from "node:events";
 import { warnIfTrue, throwIfUndefined } from "@/shared/checkUtils.ts";
+import { BusScopes } from "@/shared/enums.ts";
+import type {
+  BusEventKey,
+  BusEvents,
+  BusGetter,
+  BusGetterKey,
+  BusGetters,
+  BusListener,
+  BusPatternListener,
+} from "@/main/core/BusEvents.ts";
 
 export type ClassWithBus = {
   getBus: () => Bus;
 };
+export type BusSubscription = {
+  dispose: () => void;
+};
 type EventKey = string | symbol;
-type ListenerKey = string | symbol;
 type EventListener = (...args: unknown[]) => void;
-type ListenersMap = Map<ListenerKey, EventListener>;
+// Subscribed listeners, mapped to what is registered on the emitter (e.g. a once wrapper)
+type ListenersMap = Map<EventListener, EventListener>;
 type EventListenerMaps = Map<EventKey, ListenersMap>;
 type Getter = (...args: unknown[]) => unknown;
-type GettersMap = Map<string, Getter[]>;
+type RegisteredGetter = { getter: Getter; priority: number };
+type GettersMap = Map<string, RegisteredGetter[]>;
+type PatternListenersMap = Map<string, Set<BusPatternListener>>;
+
+const ANY_EVENT_PATTERN = "**";
+
+// "*" matches a single segment of the event name, "**" any number of them
+function matchesEventPattern(pattern: string[], event: string[]): boolean {
+  if (pattern.length === 0) return event.length === 0;
+  const [segment, ...restOfPattern] = pattern;
+  if (segment === "**") {
+    return (
+      event.some((_segment, index) =>
+        matchesEventPattern(restOfPattern, event.slice(index)),
+      ) || matchesEventPattern(restOfPattern, [])
+    );
+  }
+  if (event.length === 0) return false;
+  const [eventSegment, ...restOfEvent] = event;
+  return (
+    (segment === "*" || segment === eventSegment) &&
+    matchesEventPattern(restOfPattern, restOfEvent)
+  );
+}
+
+// The scope suffix is left out, so "timer:*" matches "timer:tick:global"
+function getNameSegments(name: string): string[] {
+  const segments = name.split(":");
+  const suffix = segments.at(-1);
+  const hasScope = Object.values(BusScopes).some((scope) => scope === suffix);
+  return hasScope ? segments.slice(0, -1) : segments;
+}
 
-export class Bus extends EventEmitter {
+// Names are only debug labels, listeners are told apart by identity
+function getListenerLabel(listener: (...args: never[]) => unknown): string {
+  return listener.name || "anonymous";
+}
+
+// Wraps an EventEmitter rather than extending it, so on() can return a subscription
+export class Bus {
+  private emitter: EventEmitter = new EventEmitter();
   private parentBus?: Bus;
   private key: string;
   private childBuses: Map<string, Bus> = new Map();
@@ -20,6 +71,8 @@ export class Bus extends EventEmitter {
 
   private eventListenerMaps: EventListenerMaps = new Map();
   private gettersMap: GettersMap = new Map();
+  private patternListenersMap: PatternListenersMap = new Map();
+  getterTimeout: number = 5000; // 5 seconds, for async getters
 
   constructor({
     key,
@@ -31,7 +84,6 @@ export class Bus extends EventEmitter {
     isRoot?: boolean;
   }) {
     throwIfUndefined(key, "Bus key must be defined");
-    super();
     this.key = key;
     this.isRoot = isRoot || false;
     if (!this.isRoot) {
@@ -54,9 +106,22 @@ export class Bus extends EventEmitter {
     this.eventListenerMaps.forEach((listenersMap, _event) => {
       listeners.push(...Array.from(listenersMap.values()));
     });
+    this.patternListenersMap.forEach((patternListeners) => {
+      listeners.push(...(Array.from(patternListeners) as EventListener[]));
+    });
     return listeners;
   }
 
+  private getPatternListenersForEvent(event: EventKey): BusPatternListener[] {
+    if (typeof event !== "string") return [];
+    const eventSegments = getNameSegments(event);
+    return Array.from(this.patternListenersMap.entries())
+      .filter(([pattern]) =>
+        matchesEventPattern(getNameSegments(pattern), eventSegments),
+      )
+      .flatMap(([_pattern, patternListeners]) => Array.from(patternListeners));
+  }
+
   isRootBus(): boolean {
     return this.isRoot;
   }
@@ -90,7 +155,12 @@ export class Bus extends EventEmitter {
     return this.childBuses.has(key);
   }
 
-  registerGetter(key: string, getter: Getter): void {
+  // Getters with a higher priority answer first
+  registerGetter<K extends BusGetterKey>(
+    key: K,
+    getter: BusGetter<K>,
+    priority: number = 0,
+  ): void {
     throwIfUndefined(key, "Getter key must be defined");
     throwIfUndefined(getter, "Getter must be defined");
     warnIfTrue(
@@ -98,19 +168,94 @@ export class Bus extends EventEmitter {
       `Getter with key "${key}" is already registered.`,
     );
     const getters = this.gettersMap.get(key) || [];
-    getters.push(getter);
+    getters.push({ getter: getter as Getter, priority });
     this.gettersMap.set(key, getters);
   }
 
-  get(key: string, ...args: unknown[]): unknown[] {
+  get<K extends BusGetterKey>(
+    key: K,
+    ...args: BusGetters[K]["args"]
+  ): BusGetters[K]["result"][] {
     throwIfUndefined(key, "Getter key must be defined");
-    return this.getAllGettersForRequest(key, this).map((getter) =>
-      getter(...args),
+    return this.getGettersByPriority(key).map(
+      (getter) => getter(...args) as BusGetters[K]["result"],
     );
   }
 
+  // For getters with exactly one provider in the tree
+  getOne<K extends BusGetterKey>(
+    key: K,
+    ...args: BusGetters[K]["args"]
+  ): BusGetters[K]["result"] {
+    throwIfUndefined(key, "Getter key must be defined");
+    const getters = this.getGettersByPriority(key);
+    if (getters.length === 0) {
+      throw new Error(`No getter registered for "${key}"`);
+    }
+    if (getters.length > 1) {
+      throw new Error(`Multiple getters registered for "${key}"`);
+    }
+    return getters[0](...args) as BusGetters[K]["result"];
+  }
+
+  // Only asks the getter with the highest priority
+  getFirst<K extends BusGetterKey>(
+    key: K,
+    ...args: BusGetters[K]["args"]
+  ): BusGetters[K]["result"] | undefined {
+    throwIfUndefined(key, "Getter key must be defined");
+    const [getter] = this.getGettersByPriority(key);
+    return getter?.(...args) as BusGetters[K]["result"] | undefined;
+  }
+
+  // Waits for getters answering with Promises, e.g. when they load from disk
+  getAsync<K extends BusGetterKey>(
+    key: K,
+    ...args: BusGetters[K]["args"]
+  ): Promise<Awaited<BusGetters[K]["result"]>[]> {
+    return this.withGetterTimeout(key, async () =>
+      Promise.all(this.get(key, ...args)),
+    );
+  }
+
+  getOneAsync<K extends BusGetterKey>(
+    key: K,
+    ...args: BusGetters[K]["args"]
+  ): Promise<Awaited<BusGetters[K]["result"]>> {
+    return this.withGetterTimeout(key, async () => this.getOne(key, ...args));
+  }
+
+  // Runs the request first so a getter that throws leaves no timer behind
+  private withGetterTimeout<T>(key: string, request: () => Promise<T>) {
+    const response = request();
+    let timeout: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_resolve, reject) => {
+      timeout = setTimeout(
+        () =>
+          reject(
+            new Error(
+              `Getter "${key}" timed out after ${this.getterTimeout}ms`,
+            ),
+          ),
+        this.getterTimeout,
+      );
+    });
+    return Promise.race([response, timedOut]).finally(() =>
+      clearTimeout(timeout),
+    );
+  }
+
+  private getGettersByPriority(key: string): Getter[] {
+    return this.getAllGettersForRequest(key, this)
+      .sort((a, b) => b.priority - a.priority)
+      .map(({ getter }) => getter);
+  }
+
   canHandleEvent(event: EventKey): boolean {
-    return this.eventListenerMaps.has(event);
+    return (
+      this.eventListenerMaps.has(event) ||
+      this.getPatternListenersForEvent(event).length > 0
+    );
   }
 
   getAllBusesForEvent(event: EventKey, exclude?: Bus): Bus[] {
@@ -132,12 +277,44 @@ export class Bus extends EventEmitter {
     return buses;
   }
 
+  getBusesUpForEvent(event: EventKey): Bus[] {
+    const buses: Bus[] = this.canHandleEvent(event) ? [this] : [];
+    if (this.parentBus) {
+      buses.push(...this.parentBus.getBusesUpForEvent(event));
+    }
+    return buses;
+  }
+
+  getBusesDownForEvent(event: EventKey): Bus[] {
+    const buses: Bus[] = this.canHandleEvent(event) ? [this] : [];
+    this.getChildBusesAsArray().forEach((bus) => {
+      buses.push(...bus.getBusesDownForEvent(event));
+    });
+    return buses;
+  }
+
+  getBusesForScope(event: EventKey, scope: BusScopes): Bus[] {
+    switch (scope) {
+      case BusScopes.LOCAL:
+        return this.canHandleEvent(event) ? [this] : [];
+      case BusScopes.UP:
+        return this.getBusesUpForEvent(event);
+      case BusScopes.DOWN:
+        return this.getBusesDownForEvent(event);
+      case BusScopes.GLOBAL:
+        return this.getAllBusesForEvent(event);
+    }
+  }
+
   canHandleRequest(requestKey: string): boolean {
     return this.gettersMap.has(requestKey);
   }
 
-  getAllGettersForRequest(requestKey: string, exclude?: Bus): Getter[] {
-    const getters: Getter[] = [];
+  getAllGettersForRequest(
+    requestKey: string,
+    exclude?: Bus,
+  ): RegisteredGetter[] {
+    const getters: RegisteredGetter[] = [];
     if (this.canHandleRequest(requestKey)) {
       getters.push(...this.gettersMap.get(requestKey)!);
     }
@@ -160,47 +337,143 @@ export class Bus extends EventEmitter {
     return getters;
   }
 
-  emit(event: EventKey, ...args: unknown[]): boolean {
-    this.getAllBusesForEvent(event).forEach((bus) => {
+  // The scope comes from the event name suffix, e.g. "timer:tick:global"
+  emit<K extends BusEventKey>(event: K, ...args: BusEvents[K]): boolean {
+    return this.emitWithScope(Bus.getEventScope(event), event, ...args);
+  }
+
+  emitWithScope<K extends BusEventKey>(
+    scope: BusScopes,
+    event: K,
+    ...args: BusEvents[K]
+  ): boolean {
+    this.getBusesForScope(event, scope).forEach((bus) => {
       bus.emitterEmit(event, ...args);
     });
     return true;
   }
 
   emitterEmit(event: EventKey, ...args: unknown[]): boolean {
-    super.emit(event, ...args); // Emit the event to the local bus
+    this.emitter.emit(event, ...args); // Emit the event to the local bus
+    this.getPatternListenersForEvent(event).forEach((listener) => {
+      (listener as EventListener)(event, ...args);
+    });
     return true;
   }
 
-  on(event: EventKey, listener: (...args: any[]) => void): this {
+  on<K extends BusEventKey>(
+    event: K,
+    listener: BusListener<K>,
+  ): BusSubscription {
+    throwIfUndefined(listener, "Listener must be defined");
+    return this.registerListener(
+      event,
+      listener as EventListener,
+      listener as EventListener,
+    );
+  }
+
+  once<K extends BusEventKey>(
+    event: K,
+    listener: BusListener<K>,
+  ): BusSubscription {
+    throwIfUndefined(listener, "Listener must be defined");
+    const onceListener = (...args: unknown[]) => {
+      this.deregisterListener(event, listener as EventListener);
+      (listener as EventListener)(...args);
+    };
+    return this.registerListener(
+      event,
+      listener as EventListener,
+      onceListener,
+    );
+  }
+
+  off<K extends BusEventKey>(event: K, listener: BusListener<K>): this {
+    throwIfUndefined(listener, "Listener must be defined");
+    this.deregisterListener(event, listener as EventListener);
+    return this;
+  }
+
+  private registerListener(
+    event: EventKey,
+    listener: EventListener,
+    registeredListener: EventListener,
+  ): BusSubscription {
     const listenersMap = this.getListenersMapForEvent(event);
-    if (listenersMap.has(listener.name)) {
+    if (listenersMap.has(listener)) {
       warnIfTrue(
         true,
-        `Listener "${listener.name}" already exists for event "${event.toString()}"`,
+        `Listener "${getListenerLabel(listener)}" already exists for event "${event.toString()}"`,
       );
-      super.off(event, listenersMap.get(listener.name)!);
+      this.emitter.off(event, listenersMap.get(listener)!);
     }
-    listenersMap.set(listener.name, listener);
-    super.on(event, listener);
-    return this;
+    listenersMap.set(listener, registeredListener);
+    this.emitter.on(event, registeredListener);
+    return {
+      dispose: () => {
+        // Disposing twice, or after the listener was removed, does nothing
+        const listenersMap = this.eventListenerMaps.get(event);
+        if (listenersMap?.get(listener) === registeredListener) {
+          this.deregisterListener(event, listener);
+        }
+      },
+    };
   }
 
-  off(event: EventKey, listener: (...args: any[]) => void): this {
-    throwIfUndefined(listener, "Listener must be defined");
+  private deregisterListener(event: EventKey, listener: EventListener): void {
     const listenersMap = this.getListenersMapForEvent(event);
-    const registeredListener = listenersMap.get(listener.name);
+    const registeredListener = listenersMap.get(listener);
     throwIfUndefined(
       registeredListener,
-      `Listener "${listener.name}" not found for event "${event.toString()}"`,
+      `Listener "${getListenerLabel(listener)}" not found for event "${event.toString()}"`,
     );
+    listenersMap.delete(listener);
+    this.emitter.off(event, registeredListener!);
+  }
+
+  // Subscribes to every event matching the pattern, e.g. "timer:*" or "timer:phase:**"
+  onPattern(pattern: string, listener: BusPatternListener): BusSubscription {
+    throwIfUndefined(listener, "Listener must be defined");
+    const patternListeners =
+      this.patternListenersMap.get(pattern) || new Set<BusPatternListener>();
+    warnIfTrue(
+      patternListeners.has(listener),
+      `Listener "${getListenerLabel(listener)}" already exists for pattern "${pattern}"`,
+    );
+    patternListeners.add(listener);
+    this.patternListenersMap.set(pattern, patternListeners);
+    return {
+      dispose: () => {
+        if (this.patternListenersMap.get(pattern)?.has(listener)) {
+          this.offPattern(pattern, listener);
+        }
+      },
+    };
+  }
 
-    listenersMap.delete(listener.name);
-    super.off(event, listener); // Remove the listener from the EventEmitter
+  offPattern(pattern: string, listener: BusPatternListener): this {
+    throwIfUndefined(listener, "Listener must be defined");
+    const patternListeners = this.patternListenersMap.get(pattern);
+    if (!patternListeners?.has(listener)) {
+      throw new Error(
+        `Listener "${getListenerLabel(listener)}" not found for pattern "${pattern}"`,
+      );
+    }
+    patternListeners.delete(listener);
+    if (patternListeners.size === 0) this.patternListenersMap.delete(pattern);
     return this;
   }
 
-  offAll(event: EventKey): this {
+  onAny(listener: BusPatternListener): BusSubscription {
+    return this.onPattern(ANY_EVENT_PATTERN, listener);
+  }
+
+  offAny(listener: BusPatternListener): this {
+    return this.offPattern(ANY_EVENT_PATTERN, listener);
+  }
+
+  offAll(event: BusEventKey): this {
     const listenersMap = this.getListenersMapForEvent(event);
     warnIfTrue(
       listenersMap.size === 0,
@@ -209,14 +482,19 @@ export class Bus extends EventEmitter {
     Array.from(listenersMap.keys()).forEach((key) => {
       listenersMap.delete(key);
     });
-    super.removeAllListeners(event); // Remove all listeners for the event from the EventEmitter
+    this.emitter.removeAllListeners(event); // Remove all listeners for the event from the EventEmitter
     return this;
   }
 
+  eventNames(): EventKey[] {
+    return this.emitter.eventNames();
+  }
+
   reset(): this {
-    this.removeAllListeners();
+    this.emitter.removeAllListeners();
     this.eventListenerMaps.clear();
     this.gettersMap.clear();
+    this.patternListenersMap.clear();
     this.childBuses.forEach((bus) => {
       bus.reset();
       bus.destroy();
@@ -231,9 +509,12 @@ export class Bus extends EventEmitter {
     Bus.removeInstance(this.key);
   }
 
-  hasActiveListeners(event?: string | symbol): boolean {
+  hasActiveListeners(event?: BusEventKey): boolean {
     if (event) {
-      return this.getListenersMapForEvent(event).size > 0;
+      return (
+        this.getListenersMapForEvent(event).size > 0 ||
+        this.getPatternListenersForEvent(event).length > 0
+      );
     }
     return this.getAllListeners().length > 0;
   }
@@ -267,27 +548,35 @@ export class Bus extends EventEmitter {
     return Bus.instances.has(key);
   }
 
+  // Events without a scope suffix go to every bus
+  static getEventScope(event: EventKey): BusScopes {
+    const suffix = String(event).split(":").at(-1);
+    const scope = Object.values(BusScopes).find((scope) => scope === suffix);
+    return scope ?? BusScopes.GLOBAL;
+  }
+
   // ============================ STATIC DECORATORS ============================
-  static eventHandler(eventKey: string) {
+  // The decorated method must accept the arguments the event is sent with
+  static eventHandler<K extends BusEventKey>(eventKey: K) {
     return function eventHandlerDecorator<
       This extends ClassWithBus,
-      Args extends unknown[],
-      Return,
+      Method extends (this: This, ...args: BusEvents[K]) => unknown,
     >(
-      originalMethod: (this: This, ...args: Args) => Return,
-      context: ClassMethodDecoratorContext<
-        This,
-        (this: This, ...args: Args) => Return
-      >,
+      originalMethod: Method,
+      context: ClassMethodDecoratorContext<This, Method>,
     ) {
       const methodName = context.name;
-      function methodWrapper(this: This, ...args: Args): Return {
+      function methodWrapper(this: This, ...args: BusEvents[K]) {
         const results = originalMethod.apply(this, args);
         return results;
       }
       methodWrapper.prototype.name = methodName;
+      // Managers constructed again hand back their singleton, already subscribed
+      const subscribedInstances = new WeakSet<This>();
 
       context.addInitializer(function (this: This) {
+        if (subscribedInstances.has(this)) return;
+        subscribedInstances.add(this);
         Object.defineProperties(methodWrapper, {
           name: {
             value: `${this.constructor.name}.${String(methodName)}`,
@@ -296,30 +585,34 @@ export class Bus extends EventEmitter {
         this.getBus().on(eventKey, methodWrapper.bind(this));
       });
 
-      return methodWrapper;
+      return methodWrapper as Method;
     };
   }
 
-  static getter<Parent>(requestKey: string) {
+  // The decorated method must match the arguments and result of the getter
+  static getter<K extends BusGetterKey>(requestKey: K, priority: number = 0) {
     return function getterDecorator<
-      This extends Parent & ClassWithBus,
-      Args extends unknown[],
-      Return,
+      This extends ClassWithBus,
+      Method extends (
+        this: This,
+        ...args: BusGetters[K]["args"]
+      ) => BusGetters[K]["result"],
     >(
-      originalMethod: (this: This, ...args: Args) => Return,
-      context: ClassMethodDecoratorContext<
-        This,
-        (this: This, ...args: Args) => Return
-      >,
+      originalMethod: Method,
+      context: ClassMethodDecoratorContext<This, Method>,
     ) {
       const methodName = context.name;
-      function methodWrapper(this: This, ...args: Args): Return {
+      function methodWrapper(this: This, ...args: BusGetters[K]["args"]) {
         const results = originalMethod.apply(this, args);
         return results;
       }
       methodWrapper.prototype.name = methodName;
+      // Managers constructed again hand back their singleton, already registered
+      const registeredInstances = new WeakSet<This>();
 
       context.addInitializer(function (this: This) {
+        if (registeredInstances.has(this)) return;
+        registeredInstances.add(this);
         Object.defineProperties(methodWrapper, {
           name: {
             value: `${this.constructor.name}.${String(methodName)}`,
@@ -327,11 +620,12 @@ export class Bus extends EventEmitter {
         });
         this.getBus().registerGetter(
           requestKey,
-          methodWrapper.bind(this) as Getter,
+          methodWrapper.bind(this),
+          priority,
         );
       });
 
-      return methodWrapper;
+      return methodWrapper as Method;
     };
   }
 }
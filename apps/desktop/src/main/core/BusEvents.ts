@@ -0,0 +1,127 @@
+import type { AppConfig } from "@/data/models/AppConfig.ts";
+import type {
+  DailyPlanning,
+  PlannedTask,
+} from "@/data/models/DailyPlanning.ts";
+import type { DayPlan, ScheduleSlot } from "@/data/models/Schedule.ts";
+import type { SessionRecord } from "@/data/models/SessionRecord.ts";
+import type { Task, TaskInput } from "@/data/models/Task.ts";
+import type { Phase } from "@/main/modules/Phase.ts";
+import type { BlockStart, ScheduleBlock } from "@/main/modules/Scheduler.ts";
+import type { CatchUp, Interruption } from "@/main/modules/Timer.ts";
+import type {
+  ConfigEvents,
+  DailyPlanningEvents,
+  SchedulerEvents,
+  SessionHistoryEvents,
+  SettingsEvents,
+  SystemEvents,
+  TaskEvents,
+  TaskStates,
+  TimerActions,
+  TimerEvents,
+} from "@/shared/enums.ts";
+import type {
+  EstimateAccuracy,
+  PhaseSnapshot,
+  StatsSummary,
+} from "@/shared/types.ts";
+
+export type PhasePayload = { phase: Phase };
+export type OverrunPayload = PhasePayload & { overrunTime: number };
+// A value can only be set for its own key
+export type ConfigSetArgs = {
+  [K in keyof AppConfig]: [key: K, value: AppConfig[K]];
+}[keyof AppConfig];
+export type ConfigChange = {
+  key: keyof AppConfig;
+  value: AppConfig[keyof AppConfig];
+};
+
+// Every event sent over the Bus, mapped to the arguments its listeners get.
+// Events declared outside the app (e.g. in tests) extend it with module augmentation.
+export interface BusEvents {
+  "app:ready": [];
+  "app:before-quit": [];
+  [SystemEvents.SUSPEND]: [];
+  [SystemEvents.RESUME]: [];
+  [TimerEvents.ACTION]: [action: TimerActions, duration?: number];
+  [TimerEvents.PHASE_SET]: [payload: PhasePayload];
+  [TimerEvents.PHASE_START]: [payload: PhasePayload];
+  [TimerEvents.PHASE_END]: [payload: PhasePayload];
+  [TimerEvents.PHASE_OVERRUN]: [payload: OverrunPayload];
+  [TimerEvents.TICK]: [payload: PhasePayload];
+  [TimerEvents.OVERRUN_TICK]: [payload: OverrunPayload];
+  [TimerEvents.PAUSED]: [payload: PhasePayload];
+  [TimerEvents.RESUMED]: [payload: PhasePayload];
+  [TimerEvents.STOPPED]: [payload: PhasePayload];
+  [TimerEvents.RESTORED]: [payload: PhasePayload];
+  [TimerEvents.EXTENDED]: [payload: PhasePayload & { duration: number }];
+  [TimerEvents.CATCH_UP]: [catchUp: CatchUp];
+  [TimerEvents.RESOLVE_CATCH_UP]: [countElapsed: boolean];
+  [TimerEvents.INTERRUPTED]: [interruption: Interruption];
+  [TimerEvents.RESOLVE_INTERRUPTION]: [markInterrupted: boolean];
+  [SchedulerEvents.PLAN_UPDATED]: [payload: { plan: DayPlan }];
+  [SchedulerEvents.BLOCK_START]: [payload: BlockStart];
+  [SchedulerEvents.BLOCK_END]: [payload: { block: ScheduleBlock }];
+  [SchedulerEvents.IMPORT_HOLIDAYS]: [];
+  [SchedulerEvents.ASSIGN_TASKS]: [slotId: string, taskIds: string[]];
+  [SchedulerEvents.TASKS_ASSIGNED]: [payload: { slot: ScheduleSlot }];
+  // Values come from the renderer, the Config validates them
+  [ConfigEvents.SET]: ConfigSetArgs;
+  [ConfigEvents.CHANGED]: [change: ConfigChange];
+  [SettingsEvents.OPEN]: [];
+  [TaskEvents.CREATE]: [task: TaskInput];
+  [TaskEvents.UPDATE]: [id: string, input: TaskInput];
+  [TaskEvents.DELETE]: [id: string];
+  [TaskEvents.SET_STATE]: [id: string, state: TaskStates];
+  [TaskEvents.CHANGED]: [payload: { tasks: Task[] }];
+  [DailyPlanningEvents.OPEN]: [];
+  [DailyPlanningEvents.SAVE]: [tasks: PlannedTask[]];
+  [DailyPlanningEvents.SAVED]: [payload: { planning: DailyPlanning }];
+  [SessionHistoryEvents.RECORDED]: [payload: { record: SessionRecord }];
+}
+
+// Every Bus getter, mapped to its arguments and what each getter returns
+export interface BusGetters {
+  "config:get": {
+    args: [key: keyof AppConfig];
+    result: AppConfig[keyof AppConfig];
+  };
+  "timer:phase:current": { args: []; result: PhaseSnapshot };
+  "timer:phase:next": { args: []; result: PhaseSnapshot };
+  "timer:cycle:count": { args: []; result: number };
+  "timer:catchup:pending": { args: []; result: CatchUp | null };
+  "timer:interruption:pending": { args: []; result: Interruption | null };
+  "tasks:all": { args: []; result: Task[] };
+  "tasks:active": { args: []; result: Task | undefined };
+  "history:sessions": { args: []; result: SessionRecord[] };
+  "history:sessions:between": {
+    args: [from: Date, to: Date];
+    result: SessionRecord[];
+  };
+  "history:focus:today": { args: []; result: number };
+  "stats:summary": { args: []; result: StatsSummary };
+  "stats:estimates": { args: []; result: EstimateAccuracy };
+  "schedule:plan:today": { args: []; result: DayPlan };
+  "schedule:slots:available": { args: []; result: ScheduleSlot[] };
+  "schedule:slot:current": { args: []; result: ScheduleSlot | undefined };
+  "schedule:slot:focus:next": { args: []; result: ScheduleSlot | undefined };
+  "schedule:slots:session": { args: []; result: ScheduleSlot[] };
+  "planning:daily:today": { args: []; result: DailyPlanning | null };
+  "planning:daily:candidates": { args: []; result: Task[] };
+}
+
+export type BusEventKey = keyof BusEvents;
+export type BusGetterKey = keyof BusGetters;
+export type BusListener<K extends BusEventKey> = (
+  ...args: BusEvents[K]
+) => void;
+// Pattern listeners get the event name first, so they can narrow the arguments
+export type BusEventWithArgs = {
+  [K in BusEventKey]: [event: K, ...args: BusEvents[K]];
+}[BusEventKey];
+export type BusPatternListener = (...eventWithArgs: BusEventWithArgs) => void;
+export type BusGetter<K extends BusGetterKey> = (
+  ...args: BusGetters[K]["args"]
+) => BusGetters[K]["result"];
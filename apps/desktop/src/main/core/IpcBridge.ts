@@ -0,0 +1,85 @@
+import { BrowserWindow, ipcMain, type IpcMainInvokeEvent } from "electron";
+import { BaseModule } from "@/main/base/BaseModule.ts";
+import type { BusEvents, BusGetters } from "@/main/core/BusEvents.ts";
+import { Phase } from "@/main/modules/Phase.ts";
+import { IpcChannels } from "@/shared/enums.ts";
+import { IPC_EVENTS, isIpcCommand, isIpcGetter } from "@/shared/ipc.ts";
+import { logger } from "@/shared/logger.ts";
+import type { IpcCommandKey, IpcGetterKey } from "@/shared/types.ts";
+
+export class IpcBridge extends BaseModule {
+  constructor() {
+    super();
+    this.setupIpcHandlers();
+    this.forwardEvents();
+  }
+
+  private setupIpcHandlers() {
+    ipcMain.handle(IpcChannels.BUS_GET, (event, key, ...args) =>
+      this.handleGet(event, key, ...args),
+    );
+    ipcMain.handle(IpcChannels.BUS_COMMAND, (event, command, ...args) =>
+      this.handleCommand(event, command, ...args),
+    );
+  }
+
+  private forwardEvents() {
+    IPC_EVENTS.forEach((event) => {
+      const forward = (...args: unknown[]) => this.send(event, ...args);
+      this.on(event, forward);
+    });
+  }
+
+  // Keys and arguments come from the renderer, only the types are trusted
+  async handleGet<K extends IpcGetterKey>(
+    _event: IpcMainInvokeEvent | null,
+    key: K,
+    ...args: BusGetters[K]["args"]
+  ) {
+    if (!isIpcGetter(key)) {
+      logger.warn(`Renderer requested unknown getter "${key}"`);
+      throw new Error(`Getter "${key}" is not exposed to the renderer`);
+    }
+    // The getters validate the arguments they need
+    const result = await this.bus.getOneAsync(key, ...args);
+    return this.serialize(result);
+  }
+
+  handleCommand<K extends IpcCommandKey>(
+    _event: IpcMainInvokeEvent | null,
+    command: K,
+    ...args: BusEvents[K]
+  ) {
+    if (!isIpcCommand(command)) {
+      logger.warn(`Renderer sent unknown command "${command}"`);
+      throw new Error(`Command "${command}" is not exposed to the renderer`);
+    }
+    // The handlers validate the arguments they need
+    this.emit(command, ...args);
+  }
+
+  send(event: string, ...args: unknown[]) {
+    const payload = args.map((arg) => this.serialize(arg));
+    BrowserWindow.getAllWindows().forEach((window) => {
+      if (window.isDestroyed()) return;
+      window.webContents.send(IpcChannels.BUS_EVENT, event, ...payload);
+    });
+  }
+
+  // Phases hold live timing state, only a snapshot can be cloned over IPC
+  private serialize(value: unknown): unknown {
+    if (value instanceof Phase) return value.toSnapshot();
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return value;
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        entry instanceof Phase ? entry.toSnapshot() : entry,
+      ]),
+    );
+  }
+}
+
+const ipcBridge = IpcBridge.getInstance();
+export { ipcBridge };
@@ -1,9 +1,17 @@
-import { app, BrowserWindow, dialog } from "electron";
+import { app, BrowserWindow, dialog, powerMonitor } from "electron";
 import dotenv from "dotenv";
 import { windowManager } from "./windowManager.js";
 import { logger } from "@/shared/logger.ts";
 import { WindowManager } from "@/main/windows/WindowManager.ts";
 import { Bus } from "@/main/core/Bus.ts";
+import { IpcBridge } from "@/main/core/IpcBridge.ts";
+import { SystemEvents } from "@/shared/enums.ts";
+import { DailyPlanner } from "@/main/modules/DailyPlanner.ts";
+import { SessionHistory } from "@/main/modules/SessionHistory.ts";
+import { Scheduler } from "@/main/modules/Scheduler.ts";
+import { Statistics } from "@/main/modules/Statistics.ts";
+import { Tasks } from "@/main/modules/Tasks.ts";
+import { Timer } from "@/main/modules/Timer.ts";
 
 dotenv.config({
   path: [".env.local", ".env"],
@@ -12,12 +20,29 @@ dotenv.config({
 function main() {
   const windowManager = WindowManager.getInstance();
   const rootBus = Bus.getRootBus();
+  IpcBridge.getInstance();
+  Timer.getInstance();
+  Tasks.getInstance();
+  SessionHistory.getInstance();
+  Statistics.getInstance();
+  Scheduler.getInstance();
+  DailyPlanner.getInstance();
 
   logger.info("Starting Kazari application...");
 
   app.on("ready", () => {
     logger.info("Application is ready, setting up windows...");
     rootBus.emit("app:ready");
+
+    powerMonitor.on("suspend", () => {
+      logger.info("System is suspending...");
+      rootBus.emit(SystemEvents.SUSPEND);
+    });
+
+    powerMonitor.on("resume", () => {
+      logger.info("System resumed!");
+      rootBus.emit(SystemEvents.RESUME);
+    });
   });
 
   app.on("window-all-closed", () => {
@@ -38,7 +63,7 @@ function main() {
 
   app.on("before-quit", () => {
     logger.info("Application is about to quit...");
-    // Perform any necessary cleanup here
+    rootBus.emit("app:before-quit");
   });
 
   process.on("uncaughtException", (error) => {
@@ -58,7 +83,7 @@ async function performGracefulShutdown() {
     "Fatal Error",
     "An unexpected error occurred. The application will now exit.",
   );
-  // TODO: Save state or perform cleanup if necessary
+  Bus.getRootBus().emit("app:before-quit");
   app.quit();
 }
 
@@ -1,9 +1,11 @@
 import { BaseModule } from "@/main/base/BaseModule.ts";
 import { appStore } from "@/data/stores/AppStore.ts";
+import { AppConfigSchema, type AppConfig } from "@/data/models/AppConfig.ts";
 import { Bus } from "@/main/core/Bus.ts";
+import { ConfigEvents } from "@/shared/enums.ts";
 
 export class Config extends BaseModule {
-  private configs: Record<string, any> = {};
+  private configs = {} as AppConfig;
   constructor() {
     super();
     this.loadConfigs();
@@ -13,14 +15,32 @@ export class Config extends BaseModule {
     this.configs = appStore.get("configs");
   }
 
-  @Bus.getter<Config>("config:get")
-  get(key: string): any {
+  @Bus.getter("config:get")
+  get<K extends keyof AppConfig>(key: K): AppConfig[K] {
     return this.configs[key];
   }
 
-  set(key: string, value: any): void {
-    this.configs[key] = value;
-    appStore.set("configs", this.configs);
+  @Bus.eventHandler(ConfigEvents.SET)
+  handleSet(key: string, value: unknown): void {
+    // Inherited members such as "constructor" aren't config keys
+    if (!Object.hasOwn(AppConfigSchema.shape, key)) {
+      throw new Error(`Unknown config key "${key}"`);
+    }
+    const configKey = key as keyof AppConfig;
+    const schema = AppConfigSchema.shape[configKey];
+    const parsed = schema.safeParse(value);
+    if (!parsed.success) {
+      throw new Error(`Invalid value for config "${key}": ${parsed.error}`);
+    }
+    this.set(configKey, parsed.data);
+  }
+
+  set<K extends keyof AppConfig>(key: K, value: AppConfig[K]): void {
+    // The store validates the configs, keep the current ones if it refuses them
+    const configs = { ...this.configs, [key]: value };
+    appStore.set("configs", configs);
+    this.configs = configs;
+    this.emit(ConfigEvents.CHANGED, { key, value });
   }
 }
 
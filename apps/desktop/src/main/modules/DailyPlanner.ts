@@ -0,0 +1,66 @@
+import { BaseModule } from "@/main/base/BaseModule.ts";
+import { Bus } from "@/main/core/Bus.ts";
+import { config } from "@/main/modules/Config.ts";
+import { DailyPlanningStore } from "@/data/stores/DailyPlanningStore.ts";
+import {
+  PlannedTaskSchema,
+  type DailyPlanning,
+  type PlannedTask,
+} from "@/data/models/DailyPlanning.ts";
+import { type Task } from "@/data/models/Task.ts";
+import { TasksStore } from "@/data/stores/TasksStore.ts";
+import { DailyPlanningEvents } from "@/shared/enums.ts";
+import { getSystemTimeZone, toDateKey } from "@/shared/dateUtils.ts";
+
+export class DailyPlanner extends BaseModule {
+  private planningStore: DailyPlanningStore;
+  private tasksStore: TasksStore;
+
+  constructor() {
+    super();
+    this.planningStore = DailyPlanningStore.getInstance();
+    this.tasksStore = TasksStore.getInstance();
+  }
+
+  // Days follow the schedule's time zone so the ritual resets with the day plan
+  private getTodayKey(): string {
+    const schedule = config.get("schedule");
+    return toDateKey(new Date(), schedule?.timeZone ?? getSystemTimeZone());
+  }
+
+  @Bus.getter("planning:daily:today")
+  getTodaysPlanning(): DailyPlanning | null {
+    const planning = this.planningStore.getDailyPlanning();
+    return planning?.date === this.getTodayKey() ? planning : null;
+  }
+
+  isPlannedToday(): boolean {
+    return this.getTodaysPlanning() !== null;
+  }
+
+  @Bus.getter("planning:daily:candidates")
+  getCandidateTasks(): Task[] {
+    return [
+      ...this.tasksStore.getInProgressTasks(),
+      ...this.tasksStore.getPendingTasks(),
+    ];
+  }
+
+  @Bus.eventHandler(DailyPlanningEvents.SAVE)
+  savePlanning(tasks: PlannedTask[]): DailyPlanning {
+    const plannedTasks = tasks.map((task) => PlannedTaskSchema.parse(task));
+    plannedTasks.forEach(({ taskId }) => {
+      if (!this.tasksStore.getTaskById(taskId)) {
+        throw new Error(`Task "${taskId}" not found`);
+      }
+    });
+    const planning: DailyPlanning = {
+      date: this.getTodayKey(),
+      completedAt: Date.now(),
+      tasks: plannedTasks,
+    };
+    this.planningStore.saveDailyPlanning(planning);
+    this.emit(DailyPlanningEvents.SAVED, { planning });
+    return planning;
+  }
+}
@@ -1,9 +1,19 @@
 import { Phases } from "@/shared/enums.ts";
+import { type PhaseSnapshot } from "@/shared/types.ts";
 
 type PhaseConfig = {
   type: Phases;
   allocatedTime: number;
   canOverrun?: boolean;
+  overrunGrace?: number;
+  overrunCap?: number;
+};
+
+export type PhaseState = {
+  startTime: number;
+  pausedAt: number;
+  pausedDuration: number;
+  extendedTime: number;
 };
 
 export class Phase {
@@ -13,6 +23,13 @@ export class Phase {
     canOverrun: false,
   };
   private startTime: number = 0;
+  private pausedAt: number = 0;
+  private pausedDuration: number = 0;
+  private extendedTime: number = 0;
+  private endedAt: number = 0;
+  private actualDuration: number = 0;
+  public isOverrunning: boolean = false;
+  public wasInterrupted: boolean = false;
   public isActive: boolean = false;
 
   constructor(phaseConfig: PhaseConfig) {
@@ -24,11 +41,24 @@ export class Phase {
   }
 
   get allocatedTime(): number {
-    return this.config.allocatedTime;
+    return this.config.allocatedTime + this.extendedTime;
   }
 
   get endTime(): number {
-    return this.startTime ? this.startTime + this.allocatedTime : 0;
+    return this.startTime
+      ? this.startTime + this.pausedDuration + this.allocatedTime
+      : 0;
+  }
+
+  get maxDuration(): number {
+    if (!this.canOverrun) return this.allocatedTime;
+    return this.allocatedTime + (this.overrunCap ?? Infinity);
+  }
+
+  get maxEndTime(): number {
+    return this.startTime
+      ? this.startTime + this.pausedDuration + this.maxDuration
+      : 0;
   }
 
   get remainingTime(): number {
@@ -38,22 +68,142 @@ export class Phase {
 
   get elapsedTime(): number {
     if (!this.startTime || !this.isActive) return 0;
-    return Date.now() - this.startTime;
+    const now = this.isPaused ? this.pausedAt : Date.now();
+    return now - this.startTime - this.pausedDuration;
   }
 
   get canOverrun(): boolean {
     return this.config.canOverrun ?? false;
   }
 
+  get overrunGrace(): number {
+    return this.config.overrunGrace ?? 0;
+  }
+
+  get overrunCap(): number | undefined {
+    return this.config.overrunCap;
+  }
+
+  get overrunTime(): number {
+    const elapsedTime = this.isActive ? this.elapsedTime : this.actualDuration;
+    return Math.max(0, elapsedTime - this.allocatedTime);
+  }
+
+  get hasExceededGrace(): boolean {
+    return this.overrunTime > this.overrunGrace;
+  }
+
+  get hasReachedOverrunCap(): boolean {
+    return this.overrunTime >= this.maxDuration - this.allocatedTime;
+  }
+
+  get isPaused(): boolean {
+    return this.pausedAt > 0;
+  }
+
   getStartTime(): number {
     return this.startTime;
   }
 
   setStartTime(startTime: number) {
     this.startTime = startTime;
+    this.pausedAt = 0;
+    this.pausedDuration = 0;
+    this.extendedTime = 0;
+    this.endedAt = 0;
+    this.actualDuration = 0;
+    this.isOverrunning = false;
+    this.wasInterrupted = false;
+  }
+
+  getState(): PhaseState {
+    return {
+      startTime: this.startTime,
+      pausedAt: this.pausedAt,
+      pausedDuration: this.pausedDuration,
+      extendedTime: this.extendedTime,
+    };
+  }
+
+  restore({
+    startTime,
+    pausedAt,
+    pausedDuration,
+    extendedTime = 0,
+  }: PhaseState) {
+    this.setStartTime(startTime);
+    this.pausedAt = pausedAt;
+    this.pausedDuration = pausedDuration;
+    this.extendedTime = extendedTime;
+  }
+
+  toSnapshot(): PhaseSnapshot {
+    return {
+      type: this.type,
+      allocatedTime: this.allocatedTime,
+      startTime: this.startTime,
+      endTime: this.endTime,
+      elapsedTime: this.elapsedTime,
+      remainingTime: this.remainingTime,
+      overrunTime: this.overrunTime,
+      isActive: this.isActive,
+      isPaused: this.isPaused,
+      isOverrunning: this.isOverrunning,
+    };
+  }
+
+  getPausedDuration(): number {
+    if (!this.isPaused) return this.pausedDuration;
+    return this.pausedDuration + (Date.now() - this.pausedAt);
+  }
+
+  getEndedAt(): number {
+    return this.endedAt;
+  }
+
+  getActualDuration(): number {
+    return this.isActive ? this.elapsedTime : this.actualDuration;
   }
 
   setActive(isActive: boolean) {
     this.isActive = isActive;
   }
+
+  end(endedAt: number = Date.now()) {
+    if (!this.startTime || !this.isActive) return;
+    const stoppedAt = this.isPaused ? this.pausedAt : endedAt;
+    this.endedAt = endedAt;
+    this.actualDuration = Math.min(
+      stoppedAt - this.startTime - this.pausedDuration,
+      this.maxDuration,
+    );
+    this.setActive(false);
+  }
+
+  extend(duration: number) {
+    if (!this.startTime || !this.isActive) return;
+    this.extendedTime += duration;
+    if (this.overrunTime === 0) this.isOverrunning = false;
+  }
+
+  shiftStartTime(offset: number) {
+    if (!this.startTime) return;
+    this.startTime += offset;
+    if (this.isPaused) this.pausedAt += offset;
+  }
+
+  pause(pausedAt: number = Date.now()) {
+    if (!this.startTime || this.isPaused) return;
+    this.pausedAt = pausedAt;
+  }
+
+  resume(resumedAt: number = Date.now()) {
+    if (!this.isPaused) return;
+    this.pausedDuration += resumedAt - this.pausedAt;
+    this.pausedAt = 0;
+  }
+
+  reset() {
+    this.setStartTime(0);
+  }
 }
@@ -0,0 +1,71 @@
+import { Phases } from "@/shared/enums.ts";
+import { type PhaseSequenceType } from "@/data/models/Phase.ts";
+
+type SequencePhase = {
+  type: Phases;
+};
+
+export class PhaseSequence<T extends SequencePhase> {
+  private phases: T[];
+  private longBreakInterval: number;
+
+  constructor(phases: T[], sequenceConfig?: Partial<PhaseSequenceType>) {
+    this.phases = phases;
+    this.longBreakInterval = sequenceConfig?.longBreakInterval ?? 4;
+  }
+
+  get length(): number {
+    return this.phases.length;
+  }
+
+  getPhase(phaseIndex: number): T {
+    return this.phases[phaseIndex];
+  }
+
+  // A skipped focus phase leaves the count as it was, so the count must move
+  // past the one the last long break was given at before another is due
+  isLongBreakDue(completedCycles: number, lastLongBreakCycles = 0): boolean {
+    return (
+      this.indexOf(Phases.LONG_BREAK) !== -1 &&
+      completedCycles > lastLongBreakCycles &&
+      completedCycles % this.longBreakInterval === 0
+    );
+  }
+
+  countCycles(phase: T, completedCycles: number): number {
+    return phase.type === Phases.FOCUS ? completedCycles + 1 : completedCycles;
+  }
+
+  getNextIndex(
+    phaseIndex: number,
+    completedCycles: number,
+    lastLongBreakCycles = 0,
+  ): number {
+    // A long break stands in for a regular break, so the rotation carries on
+    // from wherever that break sits in the sequence
+    const isLongBreak = this.phases[phaseIndex]?.type === Phases.LONG_BREAK;
+    const breakIndex = this.indexOf(Phases.BREAK);
+    const rotationIndex =
+      isLongBreak && breakIndex !== -1 ? breakIndex : phaseIndex;
+
+    let nextIndex = rotationIndex;
+    do {
+      nextIndex = (nextIndex + 1) % this.phases.length;
+    } while (
+      this.phases[nextIndex].type === Phases.LONG_BREAK &&
+      nextIndex !== rotationIndex
+    );
+
+    if (
+      this.phases[nextIndex].type === Phases.BREAK &&
+      this.isLongBreakDue(completedCycles, lastLongBreakCycles)
+    ) {
+      return this.indexOf(Phases.LONG_BREAK);
+    }
+    return nextIndex;
+  }
+
+  private indexOf(type: Phases): number {
+    return this.phases.findIndex((phase) => phase.type === type);
+  }
+}
@@ -1,115 +1,395 @@
+import { readFile } from "node:fs/promises";
+import { dialog } from "electron";
+import { v4 as uuidv4 } from "uuid";
 import { BaseModule } from "@/main/base/BaseModule.ts";
-import { Phases } from "@/shared/enums.ts";
+import { Bus } from "@/main/core/Bus.ts";
 import { config } from "@/main/modules/Config.ts";
+import { PhaseSequence } from "@/main/modules/PhaseSequence.ts";
+import { type PhaseType } from "@/data/models/Phase.ts";
 import {
-  todayAsName,
-  timeToDate,
-  timeDifferenceInMs,
-  timeAdd,
+  type DayAvailability,
+  type DayPlan,
+  type Holiday,
+  type ScheduleConfig,
+  type ScheduleSlot,
+  type TimeBlock,
+} from "@/data/models/Schedule.ts";
+import { ScheduleStore } from "@/data/stores/ScheduleStore.ts";
+import { TasksStore } from "@/data/stores/TasksStore.ts";
+import {
+  ConfigEvents,
+  Phases,
+  SchedulerEvents,
+  SystemEvents,
+} from "@/shared/enums.ts";
+import { mergeHolidays, parseIcsHolidays } from "@/shared/icsUtils.ts";
+import { logger } from "@/shared/logger.ts";
+import {
+  dayAsName,
+  endOfDay,
+  getSystemTimeZone,
+  startOfDay,
+  timeRange,
+  toDateKey,
+  type TimeRange,
 } from "@/shared/dateUtils.ts";
 
-type DayAvailability = {
-  day: string;
-  timeBlocks: TimeBlock[];
-};
-
-type TimeBlock = {
-  startTime: string;
-  endTime: string;
-};
+export type ScheduleBlock = TimeRange;
 
-type ScheduleConfig = {
-  availability: DayAvailability[];
+export type BlockStart = {
+  block: ScheduleBlock;
+  slot: ScheduleSlot;
+  completedCycles: number;
 };
 
-class ScheduleSlot {
-  public readonly startDateTime: Date;
-  public readonly endDateTime: Date;
-
-  constructor(startDateTime: Date, endDateTime: Date) {
-    this.startDateTime = startDateTime;
-    this.endDateTime = endDateTime;
-  }
-}
-
-const phases = [
-  // {
-  //   type: Phases.PLANNING,
-  //   allocatedTime: 5 * 60 * 1000, // 5 minutes
-  // },
-  {
-    type: Phases.FOCUS,
-    allocatedTime: 25 * 60 * 1000, // 25 minutes
-  },
-  {
-    type: Phases.BREAK,
-    allocatedTime: 5 * 60 * 1000, // 5 minutes
-  },
+const SCHEDULE_CONFIG_KEYS = [
+  "schedule",
+  "phases",
+  "phaseSequence",
+  "autopilot",
 ];
 
 export class Scheduler extends BaseModule {
-  private config: ScheduleConfig = { availability: [] };
-  private slots: ScheduleSlot[] = [];
+  private config: ScheduleConfig = {
+    availability: [],
+    overrides: [],
+    holidays: [],
+  };
+  private sequence: PhaseSequence<PhaseType> = new PhaseSequence([]);
+  private scheduleStore: ScheduleStore;
+  private tasksStore: TasksStore;
+  private dayPlan: DayPlan | null = null;
+  private midnightTimeout: NodeJS.Timeout | null = null;
+  private autopilotTimeouts: NodeJS.Timeout[] = [];
+  private isAutopilotArmed: boolean = false;
 
   constructor() {
     super();
+    this.scheduleStore = ScheduleStore.getInstance();
+    this.tasksStore = TasksStore.getInstance();
     this.loadConfig();
-    this.generateSlots();
+    this.loadDayPlan();
+    this.scheduleMidnightRefresh();
   }
 
   private loadConfig() {
     const scheduleConfig = config.get("schedule");
     this.config = scheduleConfig || {};
+    const phases = config.get("phases") || [];
+    const sequenceConfig = config.get("phaseSequence");
+    this.sequence = new PhaseSequence(phases, sequenceConfig);
   }
 
-  private getTodaysAvailability() {
-    const today = todayAsName();
-    const todaysAvailability = this.config.availability?.find(
-      (dayAvailability: DayAvailability) => dayAvailability.day === today,
-    ) || { timeBlocks: [] };
-    return todaysAvailability.timeBlocks;
+  get timeZone(): string {
+    return this.config.timeZone ?? getSystemTimeZone();
   }
 
-  private generateSlots() {
-    const cycleDuration = phases.reduce(
-      (total, phase) => total + phase.allocatedTime,
-      0,
+  get isAutopilotEnabled(): boolean {
+    return Boolean(config.get("autopilot"));
+  }
+
+  private loadDayPlan() {
+    const storedPlan = this.scheduleStore.getDayPlan();
+    if (storedPlan?.date === toDateKey(new Date(), this.timeZone)) {
+      this.dayPlan = storedPlan;
+      return;
+    }
+    this.generateDayPlan();
+  }
+
+  // Holidays win over date overrides, which win over the weekly availability
+  getAvailability(date: Date): TimeBlock[] {
+    const dateKey = toDateKey(date, this.timeZone);
+    if (this.config.holidays?.some((holiday) => holiday.date === dateKey)) {
+      return [];
+    }
+    const override = this.config.overrides?.find(
+      (override) => override.date === dateKey,
     );
-    const slots = this.getTodaysAvailability().flatMap((block: TimeBlock) => {
-      const duration = timeDifferenceInMs(block.startTime, block.endTime);
-      let allocatedTime = phases[0].allocatedTime; // Start with the first phase time
-      const phaseSlots = [
-        {
-          type: Phases.PLANNING,
-          allocatedTime: 5 * 60_000, // 5 minutes
-          startTime: timeToDate(block.startTime),
-          endTime: timeAdd(block.startTime, 5 * 60_000), // 5 minutes
-        },
-      ];
-      let i = 0;
+    if (override) return override.timeBlocks;
+    const dayName = dayAsName(date, this.timeZone);
+    const dayAvailability = this.config.availability?.find(
+      (dayAvailability: DayAvailability) => dayAvailability.day === dayName,
+    ) || { timeBlocks: [] };
+    return dayAvailability.timeBlocks;
+  }
+
+  generateSlots(date: Date = new Date()): ScheduleSlot[] {
+    if (this.sequence.length === 0) return [];
+    // Overnight blocks from the day before keep running after midnight
+    const dayStart = startOfDay(date, this.timeZone);
+    const previousDay = new Date(dayStart.getTime() - 1);
+    const carriedOverSlots = this.generateBlockSlots(
+      this.getDayBlocks(previousDay),
+    ).filter((slot) => slot.endTime > dayStart);
+    return [
+      ...carriedOverSlots,
+      ...this.generateBlockSlots(this.getDayBlocks(date)),
+    ];
+  }
+
+  // Each block restarts the sequence and its cycle count, as the Timer does
+  // when the autopilot starts a block
+  private generateBlockSlots(blocks: ScheduleBlock[]): ScheduleSlot[] {
+    return blocks.flatMap((block: ScheduleBlock) => {
+      const blockStart = block.startTime.getTime();
+      const duration = block.endTime.getTime() - blockStart;
+      const slots: ScheduleSlot[] = [];
+      let allocatedTime = 0;
+      let phaseIndex = 0;
+      let completedCycles = 0;
       while (allocatedTime < duration) {
-        const phase = phases[i % phases.length];
-        if (duration - allocatedTime < phase.allocatedTime) {
+        const phase = this.sequence.getPhase(phaseIndex);
+        if (
+          phase.allocatedTime <= 0 ||
+          duration - allocatedTime < phase.allocatedTime
+        ) {
           // If the remaining duration is less than the phase time, break
           break;
         }
-        const phaseSlot = {
-          ...phase,
-          startTime: timeAdd(block.startTime, allocatedTime),
-          endTime: timeAdd(
-            block.startTime,
-            allocatedTime + phase.allocatedTime,
-          ),
-        };
+        slots.push({
+          id: uuidv4(),
+          type: phase.type,
+          allocatedTime: phase.allocatedTime,
+          startTime: new Date(blockStart + allocatedTime),
+          endTime: new Date(blockStart + allocatedTime + phase.allocatedTime),
+          taskIds: [],
+        });
         allocatedTime += phase.allocatedTime;
-        phaseSlots.push(phaseSlot);
-        i++;
+        completedCycles = this.sequence.countCycles(phase, completedCycles);
+        phaseIndex = this.sequence.getNextIndex(phaseIndex, completedCycles);
       }
-      return phaseSlots;
+      return slots;
     });
   }
 
-  public getAvailableSlots(): ScheduleSlot[] {
-    return [];
+  generateDayPlan(date: Date = new Date()): DayPlan {
+    const dateKey = toDateKey(date, this.timeZone);
+    this.dayPlan = {
+      date: dateKey,
+      generatedAt: Date.now(),
+      slots: this.keepTaskAssignments(this.generateSlots(date), dateKey),
+    };
+    this.scheduleStore.saveDayPlan(this.dayPlan);
+    this.emit(SchedulerEvents.PLAN_UPDATED, { plan: this.dayPlan });
+    if (this.isAutopilotArmed) this.armAutopilot();
+    return this.dayPlan;
+  }
+
+  // Regenerating the same day keeps the tasks chosen for slots that didn't move
+  private keepTaskAssignments(
+    slots: ScheduleSlot[],
+    dateKey: string,
+  ): ScheduleSlot[] {
+    if (this.dayPlan?.date !== dateKey) return slots;
+    const previousSlots = this.dayPlan.slots;
+    return slots.map((slot) => {
+      const previousSlot = previousSlots.find(
+        (previous) =>
+          previous.type === slot.type &&
+          previous.startTime.getTime() === slot.startTime.getTime(),
+      );
+      return previousSlot ? { ...slot, taskIds: previousSlot.taskIds } : slot;
+    });
+  }
+
+  private getDayBlocks(date: Date): ScheduleBlock[] {
+    return this.getAvailability(date).map((block: TimeBlock) =>
+      timeRange(block.startTime, block.endTime, date, this.timeZone),
+    );
+  }
+
+  // Blocks running on the given day, including overnight ones from the day before
+  getBlocks(date: Date = new Date()): ScheduleBlock[] {
+    const dayStart = startOfDay(date, this.timeZone);
+    const previousDay = new Date(dayStart.getTime() - 1);
+    return [
+      ...this.getDayBlocks(previousDay).filter(
+        (block) => block.endTime > dayStart,
+      ),
+      ...this.getDayBlocks(date),
+    ];
+  }
+
+  @Bus.getter("schedule:plan:today")
+  getDayPlan(): DayPlan {
+    if (this.dayPlan?.date !== toDateKey(new Date(), this.timeZone)) {
+      return this.generateDayPlan();
+    }
+    return this.dayPlan;
+  }
+
+  @Bus.getter("schedule:slots:available")
+  getAvailableSlots(): ScheduleSlot[] {
+    const now = Date.now();
+    return this.getDayPlan().slots.filter(
+      (slot) => slot.endTime.getTime() > now,
+    );
+  }
+
+  @Bus.getter("schedule:slot:current")
+  getCurrentSlot(): ScheduleSlot | undefined {
+    const now = Date.now();
+    return this.getDayPlan().slots.find(
+      (slot) => slot.startTime.getTime() <= now && slot.endTime.getTime() > now,
+    );
+  }
+
+  // The focus slot that comes after the current one, e.g. after a break
+  @Bus.getter("schedule:slot:focus:next")
+  getNextFocusSlot(): ScheduleSlot | undefined {
+    const now = Date.now();
+    return this.getAvailableSlots().find(
+      (slot) => slot.type === Phases.FOCUS && slot.startTime.getTime() > now,
+    );
+  }
+
+  // Focus slots a planning phase plans for, up to the next planning slot
+  @Bus.getter("schedule:slots:session")
+  getSessionSlots(): ScheduleSlot[] {
+    const slots = this.getAvailableSlots();
+    const sessionSlots: ScheduleSlot[] = [];
+    for (const slot of slots) {
+      if (slot.type === Phases.PLANNING && sessionSlots.length) break;
+      if (slot.type === Phases.FOCUS) sessionSlots.push(slot);
+    }
+    return sessionSlots;
+  }
+
+  @Bus.eventHandler(SchedulerEvents.ASSIGN_TASKS)
+  assignTasks(slotId: string, taskIds: string[]): ScheduleSlot {
+    const dayPlan = this.getDayPlan();
+    const slot = dayPlan.slots.find((slot) => slot.id === slotId);
+    if (!slot) {
+      throw new Error(`Slot "${slotId}" not found`);
+    }
+    if (slot.type !== Phases.FOCUS) {
+      throw new Error(`Slot "${slotId}" is not a focus slot`);
+    }
+    const tasks = taskIds.map((taskId) => {
+      const task = this.tasksStore.getTaskById(taskId);
+      if (!task) {
+        throw new Error(`Task "${taskId}" not found`);
+      }
+      return task;
+    });
+    slot.taskIds = [...new Set(taskIds)];
+    this.scheduleStore.saveDayPlan(dayPlan);
+    tasks.forEach((task) => this.tasksStore.setTaskAsInProgress(task));
+    this.emit(SchedulerEvents.TASKS_ASSIGNED, { slot });
+    this.emit(SchedulerEvents.PLAN_UPDATED, { plan: dayPlan });
+    return slot;
+  }
+
+  @Bus.eventHandler("app:ready")
+  armAutopilot() {
+    this.isAutopilotArmed = true;
+    this.clearAutopilotTimeouts();
+    if (!this.isAutopilotEnabled) return;
+    const now = Date.now();
+    this.getBlocks().forEach((block) => {
+      const startsIn = block.startTime.getTime() - now;
+      const endsIn = block.endTime.getTime() - now;
+      if (endsIn <= 0) return;
+      if (startsIn <= 0) {
+        // Launched mid-block, pick up the plan where it currently is
+        this.startBlock(block, now);
+      } else {
+        this.setAutopilotTimeout(() => this.startBlock(block), startsIn);
+      }
+      this.setAutopilotTimeout(
+        () => this.emit(SchedulerEvents.BLOCK_END, { block }),
+        endsIn,
+      );
+    });
+  }
+
+  private startBlock(block: ScheduleBlock, time: number = Date.now()) {
+    const blockSlots = this.getDayPlan().slots.filter(
+      (slot) =>
+        slot.startTime >= block.startTime && slot.startTime < block.endTime,
+    );
+    const slotIndex = blockSlots.findIndex(
+      (slot) =>
+        slot.startTime.getTime() <= time && slot.endTime.getTime() > time,
+    );
+    if (slotIndex === -1) return;
+    const completedCycles = blockSlots
+      .slice(0, slotIndex)
+      .reduce((cycles, slot) => this.sequence.countCycles(slot, cycles), 0);
+    this.emit(SchedulerEvents.BLOCK_START, {
+      block,
+      slot: blockSlots[slotIndex],
+      completedCycles,
+    });
+  }
+
+  private setAutopilotTimeout(callback: () => void, delay: number) {
+    this.autopilotTimeouts.push(setTimeout(callback, delay));
+  }
+
+  private clearAutopilotTimeouts() {
+    this.autopilotTimeouts.forEach((timeout) => clearTimeout(timeout));
+    this.autopilotTimeouts = [];
+  }
+
+  @Bus.eventHandler(ConfigEvents.CHANGED)
+  handleConfigChange({ key }: { key: string }) {
+    if (!SCHEDULE_CONFIG_KEYS.includes(key)) return;
+    this.loadConfig();
+    this.generateDayPlan();
+    // The schedule's time zone decides when its day ends
+    this.scheduleMidnightRefresh();
+  }
+
+  @Bus.eventHandler(SchedulerEvents.IMPORT_HOLIDAYS)
+  async handleImportHolidays() {
+    const { canceled, filePaths } = await dialog.showOpenDialog({
+      title: "Import holidays",
+      filters: [{ name: "Calendar", extensions: ["ics"] }],
+      properties: ["openFile"],
+    });
+    if (canceled || !filePaths.length) return;
+    try {
+      await this.importHolidays(filePaths[0]);
+    } catch (error) {
+      logger.error(`Failed to import holidays from ${filePaths[0]}:`, error);
+    }
+  }
+
+  async importHolidays(filePath: string): Promise<Holiday[]> {
+    const imported = parseIcsHolidays(await readFile(filePath, "utf-8"));
+    const holidays = mergeHolidays(this.config.holidays ?? [], imported);
+    config.set("schedule", { ...this.config, holidays });
+    return holidays;
+  }
+
+  @Bus.eventHandler(SystemEvents.RESUME)
+  handleSystemResume() {
+    // The midnight timeout may have been held back while suspended
+    this.getDayPlan();
+    this.scheduleMidnightRefresh();
+  }
+
+  private scheduleMidnightRefresh() {
+    this.clearMidnightTimeout();
+    const delay = endOfDay(new Date(), this.timeZone).getTime() - Date.now();
+    this.midnightTimeout = setTimeout(() => {
+      this.generateDayPlan();
+      this.scheduleMidnightRefresh();
+    }, delay);
+  }
+
+  private clearMidnightTimeout() {
+    if (this.midnightTimeout) {
+      clearTimeout(this.midnightTimeout);
+      this.midnightTimeout = null;
+    }
+  }
+
+  destroy() {
+    this.clearMidnightTimeout();
+    this.clearAutopilotTimeouts();
+    super.destroy();
   }
 }
@@ -0,0 +1,79 @@
+import { v4 as uuidv4 } from "uuid";
+import { type Phase } from "./Phase.ts";
+import { BaseModule } from "@/main/base/BaseModule.ts";
+import { Bus } from "@/main/core/Bus.ts";
+import { SessionHistoryStore } from "@/data/stores/SessionHistoryStore.ts";
+import { type SessionRecord } from "@/data/models/SessionRecord.ts";
+import {
+  Phases,
+  SessionHistoryEvents,
+  SessionStatus,
+  TimerEvents,
+} from "@/shared/enums.ts";
+import { endOfDay, startOfDay } from "@/shared/dateUtils.ts";
+
+export class SessionHistory extends BaseModule {
+  private historyStore: SessionHistoryStore;
+  private activeTaskId?: string;
+
+  constructor() {
+    super();
+    this.historyStore = SessionHistoryStore.getInstance();
+  }
+
+  @Bus.eventHandler(TimerEvents.PHASE_START)
+  handlePhaseStart({ phase }: { phase: Phase }) {
+    this.activeTaskId =
+      phase.type === Phases.FOCUS ? this.getActiveTaskId() : undefined;
+  }
+
+  @Bus.eventHandler(TimerEvents.PHASE_END)
+  handlePhaseEnd({ phase }: { phase: Phase }) {
+    if (!phase.getStartTime() || !phase.getEndedAt()) return;
+    const taskId =
+      phase.type === Phases.FOCUS
+        ? this.activeTaskId || this.getActiveTaskId()
+        : undefined;
+    const record: SessionRecord = {
+      id: uuidv4(),
+      type: phase.type,
+      plannedDuration: phase.allocatedTime,
+      actualDuration: phase.getActualDuration(),
+      overrunTime: phase.overrunTime,
+      startTime: phase.getStartTime(),
+      endTime: phase.getEndedAt(),
+      taskId,
+      status: phase.wasInterrupted
+        ? SessionStatus.INTERRUPTED
+        : SessionStatus.COMPLETED,
+    };
+    this.historyStore.addRecord(record);
+    this.emit(SessionHistoryEvents.RECORDED, { record });
+    this.activeTaskId = undefined;
+  }
+
+  @Bus.getter("history:sessions")
+  getSessions(): SessionRecord[] {
+    return this.historyStore.getRecords();
+  }
+
+  @Bus.getter("history:sessions:between")
+  getSessionsBetween(from: Date, to: Date): SessionRecord[] {
+    return this.historyStore.getRecordsBetween(from.getTime(), to.getTime());
+  }
+
+  @Bus.getter("history:focus:today")
+  getTodaysFocusMinutes(): number {
+    const focusTime = this.getSessionsBetween(startOfDay(), endOfDay())
+      .filter((record) => record.type === Phases.FOCUS)
+      .reduce((total, record) => total + record.actualDuration, 0);
+    return Math.floor(focusTime / 60_000);
+  }
+
+  private getActiveTaskId(): string | undefined {
+    return this.bus.getFirst("tasks:active")?.id;
+  }
+}
+
+const sessionHistory = SessionHistory.getInstance();
+export { sessionHistory };
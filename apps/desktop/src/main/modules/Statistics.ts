@@ -0,0 +1,184 @@
+import { BaseModule } from "@/main/base/BaseModule.ts";
+import { Bus } from "@/main/core/Bus.ts";
+import { SessionHistoryStore } from "@/data/stores/SessionHistoryStore.ts";
+import { TasksStore } from "@/data/stores/TasksStore.ts";
+import { type SessionRecord } from "@/data/models/SessionRecord.ts";
+import { Phases, SessionStatus } from "@/shared/enums.ts";
+import { addDays, startOfDay, toDateKey } from "@/shared/dateUtils.ts";
+import {
+  type DailyFocus,
+  type EstimateAccuracy,
+  type StatsSummary,
+  type TaskEstimate,
+} from "@/shared/types.ts";
+
+export class Statistics extends BaseModule {
+  private historyStore: SessionHistoryStore;
+  private tasksStore: TasksStore;
+
+  constructor() {
+    super();
+    this.historyStore = SessionHistoryStore.getInstance();
+    this.tasksStore = TasksStore.getInstance();
+  }
+
+  @Bus.getter("stats:summary")
+  getSummary(): StatsSummary {
+    const today = startOfDay();
+    const weekStart = addDays(today, -6);
+    const focusSessions = this.historyStore
+      .getRecords()
+      .filter((record) => record.type === Phases.FOCUS);
+    const weekSessions = focusSessions.filter(
+      (record) => record.startTime >= weekStart.getTime(),
+    );
+    const week = Array.from({ length: 7 }, (_, index) =>
+      this.getDailyFocus(focusSessions, addDays(weekStart, index)),
+    );
+    const { currentStreak, longestStreak } = this.getStreaks(focusSessions);
+
+    return {
+      today: week[week.length - 1],
+      week,
+      weeklyFocusMinutes: week.reduce(
+        (total, day) => total + day.focusMinutes,
+        0,
+      ),
+      weeklyPomodoros: week.reduce((total, day) => total + day.pomodoros, 0),
+      weeklyTasksFinished: this.tasksStore
+        .getCompletedTasks()
+        .filter(
+          (task) =>
+            task.completedAt &&
+            task.completedAt.getTime() >= weekStart.getTime(),
+        ).length,
+      currentStreak,
+      longestStreak,
+      averageOverrunMinutes: this.getAverageOverrunMinutes(
+        this.historyStore
+          .getRecords()
+          .filter((record) => record.startTime >= weekStart.getTime()),
+      ),
+      heatmap: this.getHeatmap(weekSessions),
+    };
+  }
+
+  // Compares the pomodoros estimated for finished tasks with what they took
+  @Bus.getter("stats:estimates")
+  getEstimateAccuracy(): EstimateAccuracy {
+    const tasks: TaskEstimate[] = this.tasksStore
+      .getCompletedTasks()
+      .filter((task) => task.estimatedPomodoros)
+      .map((task) => ({
+        taskId: task.id,
+        title: task.title,
+        estimatedPomodoros: task.estimatedPomodoros!,
+        actualPomodoros: task.completedPomodoros,
+        actualFocusMinutes: toMinutes(task.actualFocusTime),
+        accuracy:
+          Math.round(
+            (task.completedPomodoros / task.estimatedPomodoros!) * 100,
+          ) / 100,
+      }));
+    const count = (predicate: (task: TaskEstimate) => boolean) =>
+      tasks.filter(predicate).length;
+    return {
+      tasks,
+      averageAccuracy: tasks.length
+        ? Math.round(
+            (tasks.reduce((total, task) => total + task.accuracy, 0) /
+              tasks.length) *
+              100,
+          ) / 100
+        : null,
+      onTarget: count(
+        (task) => task.actualPomodoros === task.estimatedPomodoros,
+      ),
+      underestimated: count(
+        (task) => task.actualPomodoros > task.estimatedPomodoros,
+      ),
+      overestimated: count(
+        (task) => task.actualPomodoros < task.estimatedPomodoros,
+      ),
+    };
+  }
+
+  private getDailyFocus(sessions: SessionRecord[], date: Date): DailyFocus {
+    const dateKey = toDateKey(date);
+    const daySessions = sessions.filter(
+      (record) => toDateKey(new Date(record.startTime)) === dateKey,
+    );
+    return {
+      date: dateKey,
+      focusMinutes: toMinutes(
+        daySessions.reduce((total, record) => total + record.actualDuration, 0),
+      ),
+      pomodoros: daySessions.filter(
+        (record) => record.status === SessionStatus.COMPLETED,
+      ).length,
+    };
+  }
+
+  private getStreaks(sessions: SessionRecord[]) {
+    const focusDays = new Set(
+      sessions
+        .filter((record) => record.status === SessionStatus.COMPLETED)
+        .map((record) => toDateKey(new Date(record.startTime))),
+    );
+
+    // Today doesn't break the streak until it is over
+    let day = startOfDay();
+    if (!focusDays.has(toDateKey(day))) day = addDays(day, -1);
+    let currentStreak = 0;
+    while (focusDays.has(toDateKey(day))) {
+      currentStreak++;
+      day = addDays(day, -1);
+    }
+
+    let longestStreak = 0;
+    focusDays.forEach((dateKey) => {
+      const date = new Date(`${dateKey}T00:00:00`);
+      if (focusDays.has(toDateKey(addDays(date, -1)))) return;
+      let streak = 0;
+      while (focusDays.has(toDateKey(addDays(date, streak)))) streak++;
+      longestStreak = Math.max(longestStreak, streak);
+    });
+
+    return { currentStreak, longestStreak };
+  }
+
+  private getAverageOverrunMinutes(sessions: SessionRecord[]): number {
+    const overruns = sessions.filter((record) => record.overrunTime > 0);
+    if (overruns.length === 0) return 0;
+    const totalOverrun = overruns.reduce(
+      (total, record) => total + record.overrunTime,
+      0,
+    );
+    return Math.round((totalOverrun / overruns.length / 60_000) * 10) / 10;
+  }
+
+  private getHeatmap(sessions: SessionRecord[]): number[][] {
+    const heatmap = Array.from({ length: 7 }, () => Array(24).fill(0));
+    sessions.forEach((record) => {
+      // Spread each session across the hours it covers
+      let cursor = record.startTime;
+      const end = record.startTime + record.actualDuration;
+      while (cursor < end) {
+        const date = new Date(cursor);
+        const nextHour = new Date(cursor);
+        nextHour.setHours(date.getHours() + 1, 0, 0, 0);
+        const sliceEnd = Math.min(end, nextHour.getTime());
+        heatmap[date.getDay()][date.getHours()] += sliceEnd - cursor;
+        cursor = sliceEnd;
+      }
+    });
+    return heatmap.map((hours) => hours.map(toMinutes));
+  }
+}
+
+function toMinutes(ms: number): number {
+  return Math.round(ms / 60_000);
+}
+
+const statistics = Statistics.getInstance();
+export { statistics };
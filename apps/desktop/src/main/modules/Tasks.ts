@@ -1,6 +1,23 @@
+import { v4 as uuidv4 } from "uuid";
 import { BaseModule } from "@/main/base/BaseModule.ts";
+import { Bus } from "@/main/core/Bus.ts";
+import { config } from "@/main/modules/Config.ts";
 import { TasksStore } from "@/data/stores/TasksStore.ts";
-import { type Task } from "@/data/models/Task.ts";
+import {
+  TaskInputSchema,
+  TaskSchema,
+  type Task,
+  type TaskInput,
+} from "@/data/models/Task.ts";
+import { type SessionRecord } from "@/data/models/SessionRecord.ts";
+import {
+  Phases,
+  SchedulerEvents,
+  SessionHistoryEvents,
+  SessionStatus,
+  TaskEvents,
+  TaskStates,
+} from "@/shared/enums.ts";
 
 export class Tasks extends BaseModule {
   private tasksStore: TasksStore;
@@ -10,6 +27,7 @@ export class Tasks extends BaseModule {
     this.tasksStore = TasksStore.getInstance();
   }
 
+  @Bus.getter("tasks:all")
   getTasks(): Task[] {
     return this.tasksStore.getTasks();
   }
@@ -30,11 +48,146 @@ export class Tasks extends BaseModule {
     return this.tasksStore.getInProgressTasks();
   }
 
+  getTasksByTag(tag: string): Task[] {
+    return this.tasksStore.getTasksByTag(tag);
+  }
+
+  getSubtasks(task: Task): Task[] {
+    return this.tasksStore.getSubtasks(task);
+  }
+
+  // Prefers the task chosen for the current focus slot during session planning
+  @Bus.getter("tasks:active")
+  getActiveTask(): Task | undefined {
+    const inProgressTasks = this.getInProgressTasks();
+    const currentSlot = this.bus.getFirst("schedule:slot:current");
+    const plannedTask = inProgressTasks.find((task) =>
+      currentSlot?.taskIds.includes(task.id),
+    );
+    return plannedTask ?? inProgressTasks[0];
+  }
+
   setTaskAsCompleted(task: Task): void {
     this.tasksStore.setTaskAsCompleted(task);
+    this.completeParentTasks(task.id);
   }
 
   saveTask(task: Task): void {
     this.tasksStore.saveTask(task);
   }
+
+  @Bus.eventHandler(TaskEvents.CREATE)
+  createTask(input: TaskInput): Task {
+    // The tracked fields start from their defaults
+    const task = TaskSchema.parse({
+      ...TaskInputSchema.parse(input),
+      id: uuidv4(),
+    });
+    this.validateSubtasks(task);
+    const createdTask = this.tasksStore.resolveTask(task);
+    this.emitChanged();
+    return createdTask;
+  }
+
+  // Only the editable fields are taken, the stored task keeps its tracked ones
+  @Bus.eventHandler(TaskEvents.UPDATE)
+  updateTask(id: string, input: TaskInput): void {
+    const existingTask = this.getTaskById(id);
+    if (!existingTask) {
+      throw new Error(`Task "${id}" not found`);
+    }
+    const task = {
+      ...existingTask,
+      ...TaskInputSchema.parse({ ...existingTask, ...input }),
+    };
+    this.validateSubtasks(task);
+    this.tasksStore.saveTask(task);
+    if (task.state === TaskStates.COMPLETED) {
+      this.completeParentTasks(task.id);
+    }
+    this.emitChanged();
+  }
+
+  @Bus.eventHandler(TaskEvents.SET_STATE)
+  setTaskState(id: string, state: TaskStates): void {
+    const task = this.getTaskById(id);
+    if (!task) {
+      throw new Error(`Task "${id}" not found`);
+    }
+    this.tasksStore.setTaskState(task, state);
+    if (state === TaskStates.COMPLETED) {
+      this.completeParentTasks(id);
+    }
+    this.emitChanged();
+  }
+
+  @Bus.eventHandler(TaskEvents.DELETE)
+  deleteTask(id: string): void {
+    this.tasksStore.deleteTask(id);
+    this.emitChanged();
+  }
+
+  @Bus.eventHandler(SchedulerEvents.TASKS_ASSIGNED)
+  handleTasksAssigned() {
+    // Assigned tasks were moved to in progress
+    this.emitChanged();
+  }
+
+  @Bus.eventHandler(SessionHistoryEvents.RECORDED)
+  handleSessionRecorded({ record }: { record: SessionRecord }) {
+    if (record.type !== Phases.FOCUS || !record.taskId) return;
+    const task = this.getTaskById(record.taskId);
+    if (!task) return;
+    this.tasksStore.addFocusTime(
+      task,
+      record.actualDuration,
+      record.status === SessionStatus.COMPLETED,
+    );
+    this.emitChanged();
+  }
+
+  // Subtasks must exist and can't lead back to the task itself
+  private validateSubtasks(task: Task) {
+    task.subtasks.forEach((subtaskId) => {
+      if (subtaskId === task.id) {
+        throw new Error(`Task "${task.id}" can't be its own subtask`);
+      }
+      const subtask = this.getTaskById(subtaskId);
+      if (!subtask) {
+        throw new Error(`Task "${subtaskId}" not found`);
+      }
+      if (this.isDescendant(task.id, subtask)) {
+        throw new Error(`Task "${subtaskId}" already contains "${task.id}"`);
+      }
+    });
+  }
+
+  private isDescendant(
+    id: string,
+    task: Task,
+    visited = new Set<string>(),
+  ): boolean {
+    if (visited.has(task.id)) return false;
+    visited.add(task.id);
+    return this.getSubtasks(task).some(
+      (subtask) => subtask.id === id || this.isDescendant(id, subtask, visited),
+    );
+  }
+
+  // Rolls completion up the tree, parents complete with their last subtask
+  private completeParentTasks(id: string) {
+    if (!config.get("completeParentTasks")) return;
+    this.tasksStore.getParentTasks(id).forEach((parent) => {
+      if (parent.state === TaskStates.COMPLETED) return;
+      const subtasks = this.getSubtasks(parent);
+      if (subtasks.every((task) => task.state === TaskStates.COMPLETED)) {
+        this.tasksStore.setTaskAsCompleted(parent);
+        this.completeParentTasks(parent.id);
+      }
+    });
+  }
+
+  private emitChanged() {
+    this.emit(TaskEvents.CHANGED, { tasks: this.getTasks() });
+  }
 }
@@ -1,38 +1,146 @@
 import { Phase } from "./Phase.ts";
+import { PhaseSequence } from "./PhaseSequence.ts";
 import { config } from "@/main/modules/Config.ts";
-import { type PhaseType } from "@/data/models/Phase.ts";
+import { TimerStore } from "@/data/stores/TimerStore.ts";
 import { BaseModule } from "@/main/base/BaseModule.ts";
-import { TimerEvents } from "@/shared/enums.ts";
+import { Bus } from "@/main/core/Bus.ts";
+import {
+  type BlockStart,
+  type ScheduleBlock,
+} from "@/main/modules/Scheduler.ts";
+import {
+  ConfigEvents,
+  Phases,
+  SchedulerEvents,
+  SystemEvents,
+  TimerActions,
+  TimerEvents,
+} from "@/shared/enums.ts";
+import { type PhaseSnapshot } from "@/shared/types.ts";
+
+export type ElapsedPhase = {
+  type: Phases;
+  startTime: number;
+  endTime: number;
+};
+
+export type CatchUp = {
+  suspendedAt: number;
+  resumedAt: number;
+  elapsedPhases: ElapsedPhase[];
+};
+
+export type Interruption = {
+  phase: Phase;
+  savedAt: number;
+};
 
 export class Timer extends BaseModule {
+  private _timerStore: TimerStore;
   private _tickDuration: number = 1000; // 1 second
+  private _clockJumpThreshold: number = 5000; // 5 seconds
+  private _extendDuration: number = 5 * 60 * 1000; // 5 minutes
   private _phases: Phase[] = [];
+  private _sequence: PhaseSequence<Phase> = new PhaseSequence(this._phases);
   private _currentPhaseIndex: number = -1;
-  private _timerInterval: NodeJS.Timeout | null = null;
+  private _completedCycles: number = 0;
+  private _lastLongBreakCycles: number = 0;
+  private _tickTimeout: NodeJS.Timeout | null = null;
+  private _lastTickAt: number = 0;
+  private _nextTickAt: number = 0;
+  private _suspendedAt: number = 0;
+  private _pendingCatchUp: CatchUp | null = null;
+  private _pendingInterruption: Interruption | null = null;
+  private _hasPendingPhaseReload: boolean = false;
 
   constructor() {
     super();
+    this._timerStore = TimerStore.getInstance();
     this.loadPhasesFromConfig();
     this.setInitialPhase();
+    this.restoreState();
   }
 
   get phases() {
     return [...this._phases];
   }
 
+  get isRunning(): boolean {
+    return this._tickTimeout !== null;
+  }
+
+  get isPaused(): boolean {
+    return this.currentPhase.isPaused;
+  }
+
   get currentPhase(): Phase {
     return this._phases[this._currentPhaseIndex] || this._phases[0];
   }
 
+  @Bus.getter("timer:phase:current")
+  getCurrentPhaseSnapshot(): PhaseSnapshot {
+    return this.currentPhase.toSnapshot();
+  }
+
+  @Bus.getter("timer:phase:next")
+  getNextPhaseSnapshot(): PhaseSnapshot {
+    const completedCycles = this._sequence.countCycles(
+      this.currentPhase,
+      this._completedCycles,
+    );
+    const nextIndex = this.getNextPhaseIndex(
+      this._currentPhaseIndex,
+      completedCycles,
+    );
+    return this._phases[nextIndex].toSnapshot();
+  }
+
   getCurrentPhaseIndex(): number {
     return this._currentPhaseIndex;
   }
 
+  @Bus.getter("timer:cycle:count")
+  getCompletedCycles(): number {
+    return this._completedCycles;
+  }
+
+  @Bus.getter("timer:catchup:pending")
+  getPendingCatchUp(): CatchUp | null {
+    return this._pendingCatchUp;
+  }
+
+  // Restored before any window listens, so the renderer asks for it on load
+  @Bus.getter("timer:interruption:pending")
+  getPendingInterruption(): Interruption | null {
+    return this._pendingInterruption;
+  }
+
   loadPhasesFromConfig() {
-    const configPhases = config.get("phases") as PhaseType[];
+    const configPhases = config.get("phases");
     configPhases.forEach((phase) => {
       this._phases.push(new Phase(phase));
     });
+    const sequenceConfig = config.get("phaseSequence");
+    this._sequence = new PhaseSequence(this._phases, sequenceConfig);
+  }
+
+  reloadPhases() {
+    this._phases.length = 0;
+    this._currentPhaseIndex = -1;
+    this._hasPendingPhaseReload = false;
+    this.loadPhasesFromConfig();
+  }
+
+  @Bus.eventHandler(ConfigEvents.CHANGED)
+  handleConfigChange({ key }: { key: string }) {
+    if (key !== "phases" && key !== "phaseSequence") return;
+    if (this.currentPhase.getStartTime()) {
+      // Don't pull the phase out from under a running session
+      this._hasPendingPhaseReload = true;
+      return;
+    }
+    this.reloadPhases();
+    this.setInitialPhase();
   }
 
   setInitialPhase() {
@@ -52,8 +160,92 @@ export class Timer extends BaseModule {
     this.startPhase();
   }
 
+  @Bus.eventHandler(TimerEvents.ACTION)
+  handleAction(action: TimerActions, duration?: number) {
+    switch (action) {
+      case TimerActions.START:
+        if (this.isPaused) {
+          this.resume();
+        } else if (!this.isRunning) {
+          this.start();
+        }
+        break;
+      case TimerActions.PAUSE:
+        this.pause();
+        break;
+      case TimerActions.RESUME:
+        this.resume();
+        break;
+      case TimerActions.STOP:
+        this.stop();
+        break;
+      case TimerActions.SKIP:
+        this.skip();
+        break;
+      case TimerActions.EXTEND:
+        this.extend(duration);
+        break;
+    }
+  }
+
+  pause() {
+    if (!this.isRunning || this.isPaused) return;
+    this.currentPhase.pause();
+    this.clearTickTimeout();
+    this.saveState();
+    this.emit(TimerEvents.PAUSED, { phase: this.currentPhase });
+  }
+
+  resume() {
+    if (!this.isPaused) return;
+    this._pendingCatchUp = null;
+    this._pendingInterruption = null;
+    this.currentPhase.resume();
+    this.scheduleTick();
+    this.saveState();
+    this.emit(TimerEvents.RESUMED, { phase: this.currentPhase });
+  }
+
+  stop() {
+    const phase = this.currentPhase;
+    if (phase.isActive && phase.getStartTime()) {
+      phase.wasInterrupted = true;
+      this.endPhase();
+    }
+    this.clearTickTimeout();
+    this._pendingCatchUp = null;
+    this._pendingInterruption = null;
+    this._completedCycles = 0;
+    this._lastLongBreakCycles = 0;
+    this._phases.forEach((phase) => phase.reset());
+    if (this._hasPendingPhaseReload) this.reloadPhases();
+    this.setCurrentPhase(0);
+    this.saveState();
+    this.emit(TimerEvents.STOPPED, { phase: this.currentPhase });
+  }
+
+  skip() {
+    const phase = this.currentPhase;
+    if (!phase.getStartTime()) return;
+    phase.wasInterrupted = phase.remainingTime > 0;
+    this.endPhase();
+    this.startNextPhase();
+  }
+
+  extend(duration: number = this._extendDuration) {
+    const phase = this.currentPhase;
+    if (!phase.getStartTime()) return;
+    phase.extend(duration);
+    if (this.isRunning) {
+      this.clearTickTimeout();
+      this.scheduleTick();
+    }
+    this.saveState();
+    this.emit(TimerEvents.EXTENDED, { phase, duration });
+  }
+
   prepareNextPhase() {
-    this.setCurrentPhase((this._currentPhaseIndex + 1) % this._phases.length);
+    this.setCurrentPhase(this.getNextPhaseIndex());
   }
 
   startNextPhase() {
@@ -61,31 +253,262 @@ export class Timer extends BaseModule {
     this.startPhase();
   }
 
-  startPhase() {
+  startPhase(startTime: number = Date.now()) {
     const phase = this.currentPhase;
-    phase.setStartTime(Date.now());
-    this._timerInterval = setInterval(this.tick.bind(this), this._tickDuration);
+    phase.setStartTime(startTime);
+    if (phase.type === Phases.LONG_BREAK) {
+      this._lastLongBreakCycles = this._completedCycles;
+    }
+    this.scheduleTick();
+    this.saveState();
     this.emit(TimerEvents.PHASE_START, { phase });
   }
 
   tick() {
+    const now = Date.now();
+    this._tickTimeout = null;
+    const lateBy = now - this._nextTickAt;
+    if (lateBy > this._clockJumpThreshold) {
+      this.handleSuspension(this._suspendedAt || this._lastTickAt, now);
+      return;
+    }
+    if (lateBy < -this._clockJumpThreshold) {
+      // The wall clock was set backwards, move the phase along with it
+      this.currentPhase.shiftStartTime(lateBy);
+    }
+    this._suspendedAt = 0;
+
     const phase = this.currentPhase;
     this.emit(TimerEvents.TICK, { phase });
-    if (phase.remainingTime <= 0 && !phase.canOverrun) {
+    if (phase.remainingTime > 0) {
+      this.scheduleTick();
+      return;
+    }
+    if (!phase.canOverrun || phase.hasReachedOverrunCap) {
       this.endPhase();
       this.startNextPhase();
+      return;
     }
+    this.handleOverrun();
+    this.scheduleTick();
   }
 
-  endPhase() {
-    this.currentPhase.setActive(false);
-    if (this._timerInterval) {
-      clearInterval(this._timerInterval);
-      this._timerInterval = null;
+  handleOverrun() {
+    const phase = this.currentPhase;
+    if (!phase.hasExceededGrace) return;
+    const overrunTime = phase.overrunTime;
+    if (!phase.isOverrunning) {
+      phase.isOverrunning = true;
+      this.emit(TimerEvents.PHASE_OVERRUN, { phase, overrunTime });
     }
+    this.emit(TimerEvents.OVERRUN_TICK, { phase, overrunTime });
+  }
+
+  endPhase(endedAt: number = Date.now()) {
+    if (!this.currentPhase.wasInterrupted) {
+      this._completedCycles = this._sequence.countCycles(
+        this.currentPhase,
+        this._completedCycles,
+      );
+    }
+    this.currentPhase.end(endedAt);
+    this.clearTickTimeout();
     this.emit(TimerEvents.PHASE_END, { phase: this.currentPhase });
   }
 
+  @Bus.eventHandler(SchedulerEvents.BLOCK_START)
+  handleBlockStart({ slot, completedCycles }: BlockStart) {
+    if (this.isRunning || this.isPaused) return;
+    const phaseIndex = this._phases.findIndex(
+      (phase) => phase.type === slot.type,
+    );
+    if (phaseIndex === -1) return;
+    this._completedCycles = completedCycles;
+    this.setCurrentPhase(phaseIndex);
+    this.startPhase(slot.startTime.getTime());
+  }
+
+  // The last phase may end with the block, so its final tick can land on either side
+  @Bus.eventHandler(SchedulerEvents.BLOCK_END)
+  handleBlockEnd({ block }: { block: ScheduleBlock }) {
+    if (!this.isRunning && !this.isPaused) return;
+    const phase = this.currentPhase;
+    if (phase.getStartTime() >= block.endTime.getTime()) {
+      // Started by the final tick, after the block it belonged to
+      phase.reset();
+    } else if (!phase.isPaused && phase.remainingTime <= this._tickDuration) {
+      this.endPhase();
+    }
+    this.stop();
+  }
+
+  @Bus.eventHandler(SystemEvents.SUSPEND)
+  handleSystemSuspend() {
+    if (!this.isRunning) return;
+    this._suspendedAt = Date.now();
+  }
+
+  @Bus.eventHandler(SystemEvents.RESUME)
+  handleSystemResume() {
+    if (!this.isRunning) return;
+    this.clearTickTimeout();
+    this.tick();
+  }
+
+  @Bus.eventHandler(TimerEvents.RESOLVE_CATCH_UP)
+  resolveCatchUp(countElapsed: boolean) {
+    const catchUp = this._pendingCatchUp;
+    if (!catchUp) return;
+    this._pendingCatchUp = null;
+    if (!countElapsed) {
+      this.resume();
+      return;
+    }
+    this.currentPhase.resume(catchUp.suspendedAt);
+    this.catchUpTo(Date.now());
+    this.scheduleTick();
+    this.saveState();
+    this.emit(TimerEvents.RESUMED, { phase: this.currentPhase });
+  }
+
+  @Bus.eventHandler("app:before-quit")
+  saveState() {
+    const phase = this.currentPhase;
+    if (!phase.getStartTime()) {
+      this._timerStore.clearState();
+      return;
+    }
+    this._timerStore.saveState({
+      ...phase.getState(),
+      phaseIndex: this._currentPhaseIndex,
+      completedCycles: this._completedCycles,
+      lastLongBreakCycles: this._lastLongBreakCycles,
+      savedAt: Date.now(),
+    });
+  }
+
+  restoreState() {
+    const state = this._timerStore.getState();
+    if (!state || !this._phases[state.phaseIndex]) return;
+    this._completedCycles = state.completedCycles;
+    this._lastLongBreakCycles = state.lastLongBreakCycles;
+    this.setCurrentPhase(state.phaseIndex);
+    const phase = this.currentPhase;
+    phase.restore(state);
+    if (!phase.isPaused && phase.maxEndTime <= Date.now()) {
+      // The app went down and the phase's window has passed since
+      phase.pause(state.savedAt);
+      this._pendingInterruption = { phase, savedAt: state.savedAt };
+      this.emit(TimerEvents.INTERRUPTED, this._pendingInterruption);
+      return;
+    }
+    if (!phase.isPaused) {
+      this.scheduleTick();
+    }
+    this.emit(TimerEvents.RESTORED, { phase });
+  }
+
+  @Bus.eventHandler(TimerEvents.RESOLVE_INTERRUPTION)
+  resolveInterruption(markInterrupted: boolean) {
+    if (!this._pendingInterruption) return;
+    this._pendingInterruption = null;
+    if (!markInterrupted) {
+      this.resume();
+      return;
+    }
+    this.currentPhase.wasInterrupted = true;
+    this.endPhase();
+    this.prepareNextPhase();
+    this.saveState();
+  }
+
+  getElapsedPhases(from: number, to: number): ElapsedPhase[] {
+    const elapsedPhases: ElapsedPhase[] = [];
+    let phase = this.currentPhase;
+    let phaseIndex = this._currentPhaseIndex;
+    let completedCycles = this._completedCycles;
+    let lastLongBreakCycles = this._lastLongBreakCycles;
+    let startTime = phase.getStartTime();
+    let endTime = phase.maxEndTime;
+    while (endTime <= to) {
+      if (endTime > from) {
+        elapsedPhases.push({ type: phase.type, startTime, endTime });
+      }
+      completedCycles = this._sequence.countCycles(phase, completedCycles);
+      phaseIndex = this.getNextPhaseIndex(
+        phaseIndex,
+        completedCycles,
+        lastLongBreakCycles,
+      );
+      phase = this._phases[phaseIndex];
+      if (phase.type === Phases.LONG_BREAK) {
+        lastLongBreakCycles = completedCycles;
+      }
+      startTime = endTime;
+      endTime = startTime + phase.maxDuration;
+    }
+    return elapsedPhases;
+  }
+
+  getNextPhaseIndex(
+    phaseIndex: number = this._currentPhaseIndex,
+    completedCycles: number = this._completedCycles,
+    lastLongBreakCycles: number = this._lastLongBreakCycles,
+  ): number {
+    return this._sequence.getNextIndex(
+      phaseIndex,
+      completedCycles,
+      lastLongBreakCycles,
+    );
+  }
+
+  private handleSuspension(suspendedAt: number, resumedAt: number) {
+    const phase = this.currentPhase;
+    const elapsedPhases = this.getElapsedPhases(suspendedAt, resumedAt);
+    this._suspendedAt = 0;
+    if (elapsedPhases.length === 0) {
+      this._nextTickAt = resumedAt;
+      this.tick();
+      return;
+    }
+    phase.pause(suspendedAt);
+    this._pendingCatchUp = { suspendedAt, resumedAt, elapsedPhases };
+    this.emit(TimerEvents.PAUSED, { phase });
+    this.emit(TimerEvents.CATCH_UP, this._pendingCatchUp);
+  }
+
+  private catchUpTo(time: number) {
+    while (this.currentPhase.maxEndTime <= time) {
+      const endTime = this.currentPhase.maxEndTime;
+      this.endPhase(endTime);
+      this.prepareNextPhase();
+      this.startPhase(endTime);
+    }
+  }
+
+  private scheduleTick() {
+    this.clearTickTimeout();
+    const now = Date.now();
+    const phase = this.currentPhase;
+    const untilNextTick =
+      this._tickDuration - (phase.elapsedTime % this._tickDuration);
+    const remainingTime =
+      phase.remainingTime > 0
+        ? phase.remainingTime
+        : phase.maxDuration - phase.elapsedTime;
+    const delay = Math.min(untilNextTick, remainingTime);
+    this._lastTickAt = now;
+    this._nextTickAt = now + delay;
+    this._tickTimeout = setTimeout(this.tick.bind(this), delay);
+  }
+
+  private clearTickTimeout() {
+    if (this._tickTimeout) {
+      clearTimeout(this._tickTimeout);
+      this._tickTimeout = null;
+    }
+  }
+
   setTickDuration(duration: number) {
     this._tickDuration = duration;
   }
@@ -44,6 +44,8 @@ export class BaseWindow {
     console.log("isVisible", this.state.isVisible);
     const window = new BrowserWindow({
       // fullscreen: this.state.isFullScreen,
+      width: this.state.bounds.width,
+      height: this.state.bounds.height,
       show: this.state.isVisible,
       webPreferences: {
         preload: path.join(__dirname, "preload.js"),
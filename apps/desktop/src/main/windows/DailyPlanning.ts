@@ -1,19 +1,10 @@
 import { WindowType } from "@/shared/enums.ts";
-import { BaseWindow } from "./BaseWindow.js";
+import { BaseWindow } from "./BaseWindow.ts";
 
 export class DailyPlanningWindow extends BaseWindow {
-  routerPath = "/daily-planning";
-
-  constructor() {
-    super();
-    this.windowLoad();
-  }
-
-  get type() {
-    return WindowType.DailyPlanning;
-  }
-
-  get baseState() {
+  static type = WindowType.DailyPlanning;
+  static routerPath = "/daily-planning";
+  static get baseState() {
     return {
       ...super.baseState,
       isFullScreen: true,
@@ -22,6 +13,11 @@ export class DailyPlanningWindow extends BaseWindow {
     };
   }
 
+  constructor() {
+    super();
+    this.windowLoad();
+  }
+
   afterShowWindow() {
     this.window.setAlwaysOnTop(true);
   }
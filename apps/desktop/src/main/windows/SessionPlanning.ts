@@ -1,19 +1,10 @@
 import { WindowType } from "@/shared/enums.ts";
-import { BaseWindow } from "./BaseWindow.js";
+import { BaseWindow } from "./BaseWindow.ts";
 
 export class SessionPlanningWindow extends BaseWindow {
-  routerPath = "/session-planning";
-
-  constructor() {
-    super();
-    this.windowLoad();
-  }
-
-  get type() {
-    return WindowType.SessionPlanning;
-  }
-
-  get baseState() {
+  static type = WindowType.SessionPlanning;
+  static routerPath = "/session-planning";
+  static get baseState() {
     return {
       ...super.baseState,
       isFullScreen: true,
@@ -22,6 +13,11 @@ export class SessionPlanningWindow extends BaseWindow {
     };
   }
 
+  constructor() {
+    super();
+    this.windowLoad();
+  }
+
   afterShowWindow() {
     this.window.setAlwaysOnTop(true);
   }
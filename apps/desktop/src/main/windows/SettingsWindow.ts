@@ -0,0 +1,19 @@
+import { WindowType } from "@/shared/enums.ts";
+import { BaseWindow } from "./BaseWindow.ts";
+
+export class SettingsWindow extends BaseWindow {
+  static type = WindowType.Settings;
+  static routerPath = "/settings";
+  static get baseState() {
+    return {
+      ...super.baseState,
+      bounds: { x: 0, y: 0, width: 900, height: 700 },
+      isVisible: true,
+    };
+  }
+
+  constructor() {
+    super();
+    this.windowLoad();
+  }
+}
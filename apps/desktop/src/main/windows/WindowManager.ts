@@ -1,12 +1,26 @@
 import { Bus } from "@/main/core/Bus.ts";
 import { BaseManager } from "@/main/base/BaseManager.ts";
-import { Phases } from "@/shared/enums.ts";
+import type { Phase } from "@/main/modules/Phase.ts";
+import {
+  DailyPlanningEvents,
+  Phases,
+  SettingsEvents,
+  TimerEvents,
+} from "@/shared/enums.ts";
+import { BreakScreen } from "./BreakScreen.ts";
+import { DailyPlanningWindow } from "./DailyPlanning.ts";
 import { PlanningWindow } from "./PlanningWindow.ts";
+import { SessionPlanningWindow } from "./SessionPlanning.ts";
+import { SettingsWindow } from "./SettingsWindow.ts";
 
 type Windows = PlanningWindow;
 
 export class WindowManager extends BaseManager {
   private currentWindow: Windows | null = null;
+  private settingsWindow: SettingsWindow | null = null;
+  private dailyPlanningWindow: DailyPlanningWindow | null = null;
+  private sessionPlanningWindow: SessionPlanningWindow | null = null;
+  private breakWindow: BreakScreen | null = null;
 
   constructor() {
     super();
@@ -15,6 +29,12 @@ export class WindowManager extends BaseManager {
   @Bus.eventHandler("app:ready")
   launchStartupWindows() {
     this.launchWindowForPhase(this.getCurrentPhase());
+    // The first launch of the day starts with the planning ritual
+    if (!this.isDailyPlanningDone()) this.openDailyPlanningWindow();
+  }
+
+  isDailyPlanningDone(): boolean {
+    return Boolean(this.bus.getFirst("planning:daily:today"));
   }
 
   getCurrentPhase(): Phases {
@@ -32,4 +52,105 @@ export class WindowManager extends BaseManager {
         break;
     }
   }
+
+  @Bus.eventHandler(SettingsEvents.OPEN)
+  openSettingsWindow() {
+    if (this.settingsWindow && !this.settingsWindow.window.isDestroyed()) {
+      this.settingsWindow.window.focus();
+      return;
+    }
+    this.settingsWindow = new SettingsWindow();
+    this.settingsWindow.window.on("closed", () => {
+      this.settingsWindow = null;
+    });
+  }
+
+  getSettingsWindow(): SettingsWindow | null {
+    return this.settingsWindow;
+  }
+
+  @Bus.eventHandler(DailyPlanningEvents.OPEN)
+  openDailyPlanningWindow() {
+    if (
+      this.dailyPlanningWindow &&
+      !this.dailyPlanningWindow.window.isDestroyed()
+    ) {
+      this.dailyPlanningWindow.window.focus();
+      return;
+    }
+    this.dailyPlanningWindow = new DailyPlanningWindow();
+    this.dailyPlanningWindow.window.on("closed", () => {
+      this.dailyPlanningWindow = null;
+    });
+  }
+
+  @Bus.eventHandler(DailyPlanningEvents.SAVED)
+  closeDailyPlanningWindow() {
+    this.dailyPlanningWindow?.closeWindow();
+  }
+
+  getDailyPlanningWindow(): DailyPlanningWindow | null {
+    return this.dailyPlanningWindow;
+  }
+
+  launchSessionPlanningWindow() {
+    if (
+      this.sessionPlanningWindow &&
+      !this.sessionPlanningWindow.window.isDestroyed()
+    ) {
+      this.sessionPlanningWindow.window.focus();
+      return;
+    }
+    this.sessionPlanningWindow = new SessionPlanningWindow();
+    this.sessionPlanningWindow.window.on("closed", () => {
+      this.sessionPlanningWindow = null;
+    });
+  }
+
+  getSessionPlanningWindow(): SessionPlanningWindow | null {
+    return this.sessionPlanningWindow;
+  }
+
+  launchBreakWindow() {
+    if (this.breakWindow && !this.breakWindow.window.isDestroyed()) {
+      this.breakWindow.window.focus();
+      return;
+    }
+    this.breakWindow = new BreakScreen();
+    this.breakWindow.window.on("closed", () => {
+      this.breakWindow = null;
+    });
+  }
+
+  getBreakWindow(): BreakScreen | null {
+    return this.breakWindow;
+  }
+
+  // Each planning phase is spent choosing tasks for the upcoming focus slots,
+  // each break is spent away from them on the break screen
+  @Bus.eventHandler(TimerEvents.PHASE_START)
+  handlePhaseStart({ phase }: { phase: Phase }) {
+    switch (phase.type) {
+      case Phases.PLANNING:
+        this.launchSessionPlanningWindow();
+        break;
+      case Phases.BREAK:
+      case Phases.LONG_BREAK:
+        this.launchBreakWindow();
+        break;
+    }
+  }
+
+  @Bus.eventHandler(TimerEvents.PHASE_END)
+  handlePhaseEnd({ phase }: { phase: Phase }) {
+    switch (phase.type) {
+      case Phases.PLANNING:
+        this.sessionPlanningWindow?.closeWindow();
+        break;
+      case Phases.BREAK:
+      case Phases.LONG_BREAK:
+        this.breakWindow?.closeWindow();
+        break;
+    }
+  }
 }
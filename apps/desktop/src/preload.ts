@@ -1,6 +1,40 @@
-import { contextBridge, ipcRenderer } from "electron";
+import { contextBridge, ipcRenderer, type IpcRendererEvent } from "electron";
+import { IpcChannels } from "@/shared/enums.ts";
+import { isIpcCommand, isIpcEvent, isIpcGetter } from "@/shared/ipc.ts";
+import type { BusBridge } from "@/shared/types.ts";
 // import { logger } from "@/shared/logger.ts";
 
+const bus: BusBridge = {
+  get: (key, ...args) => {
+    if (!isIpcGetter(key)) {
+      return Promise.reject(new Error(`Getter "${key}" is not exposed`));
+    }
+    return ipcRenderer.invoke(IpcChannels.BUS_GET, key, ...args);
+  },
+  command: (command, ...args) => {
+    if (!isIpcCommand(command)) {
+      return Promise.reject(new Error(`Command "${command}" is not exposed`));
+    }
+    return ipcRenderer.invoke(IpcChannels.BUS_COMMAND, command, ...args);
+  },
+  on: (event, listener) => {
+    if (!isIpcEvent(event)) {
+      throw new Error(`Event "${event}" is not exposed`);
+    }
+    const handler = (
+      _ipcEvent: IpcRendererEvent,
+      busEvent: string,
+      payload: Parameters<typeof listener>[0],
+    ) => {
+      if (busEvent === event) listener(payload);
+    };
+    ipcRenderer.on(IpcChannels.BUS_EVENT, handler);
+    return () => {
+      ipcRenderer.removeListener(IpcChannels.BUS_EVENT, handler);
+    };
+  },
+};
+
 contextBridge.exposeInMainWorld("kazari", {
   logger: {
     info: (message: string, ...args: unknown[]) =>
@@ -16,4 +50,5 @@ contextBridge.exposeInMainWorld("kazari", {
     verbose: (message: string, ...args: unknown[]) =>
       ipcRenderer.send("log", { level: "verbose", message, args }),
   },
+  bus,
 });
@@ -6,18 +6,28 @@ import { DailyPlanning } from './pages/DailyPlanning.tsx';
 import { BreakScreen } from './pages/BreakScreen.tsx';
 import { SessionPlanning } from './pages/SessionPlanning.tsx';
 import { PlanningScreen } from './pages/PlanningScreen.tsx';
+import { TaskManager } from './pages/TaskManager.tsx';
+import { Settings } from './pages/Settings.tsx';
+import { CatchUpPrompt } from './components/CatchUpPrompt.tsx';
+import { InterruptionPrompt } from './components/InterruptionPrompt.tsx';
 
 import './App.css'
 
 function App() {
   return (
-    <Routes>
-      <Route path="/daily-planning" element={ <DailyPlanning /> } />
-      <Route path="/break" element={ <BreakScreen /> } />
-      <Route path="/session-planning" element={ <SessionPlanning /> } />
-      <Route path="/planning" element={ <PlanningScreen /> } />
-      <Route path="/" element={ <Dashboard /> } />
-    </Routes>
+    <>
+      <CatchUpPrompt />
+      <InterruptionPrompt />
+      <Routes>
+        <Route path="/daily-planning" element={ <DailyPlanning /> } />
+        <Route path="/break" element={ <BreakScreen /> } />
+        <Route path="/session-planning" element={ <SessionPlanning /> } />
+        <Route path="/planning" element={ <PlanningScreen /> } />
+        <Route path="/tasks" element={ <TaskManager /> } />
+        <Route path="/settings" element={ <Settings /> } />
+        <Route path="/" element={ <Dashboard /> } />
+      </Routes>
+    </>
   )
 }
 
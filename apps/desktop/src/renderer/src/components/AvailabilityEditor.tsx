@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { getTimeBlockErrors } from '@/shared/scheduleUtils.ts';
+import type { DayOfWeek } from '@/shared/dateUtils.ts';
+import type { ScheduleConfig } from '@/shared/types.ts';
+
+interface AvailabilityEditorProps {
+  schedule: ScheduleConfig;
+  onChange: (schedule: ScheduleConfig) => void;
+}
+
+type TimeBlock = ScheduleConfig['availability'][number]['timeBlocks'][number];
+
+const WEEKDAYS: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+const DEFAULT_BLOCK: TimeBlock = { startTime: '09:00', endTime: '12:00' };
+
+export const AvailabilityEditor: React.FC<AvailabilityEditorProps> = ({ schedule, onChange }) => {
+  // Edits stay local until the whole week validates, so half-typed blocks aren't saved
+  const [availability, setAvailability] = useState(() =>
+    WEEKDAYS.map(day => ({
+      day,
+      timeBlocks: schedule.availability.find(entry => entry.day === day)?.timeBlocks ?? [],
+    })),
+  );
+  const errorsByDay = availability.map(({ timeBlocks }) => getTimeBlockErrors(timeBlocks));
+
+  const updateDay = (dayIndex: number, timeBlocks: TimeBlock[]) => {
+    const nextAvailability = availability.map((entry, index) =>
+      index === dayIndex ? { ...entry, timeBlocks } : entry,
+    );
+    setAvailability(nextAvailability);
+    const isValid = nextAvailability.every(({ timeBlocks }) => !getTimeBlockErrors(timeBlocks).length);
+    if (isValid) {
+      onChange({
+        ...schedule,
+        availability: nextAvailability.filter(({ timeBlocks }) => timeBlocks.length),
+      });
+    }
+  };
+
+  return (
+    <div className="availability-editor">
+      {
+        availability.map(({ day, timeBlocks }, dayIndex) => (
+          <div key={day} className="availability-day">
+            <h3>{ day }</h3>
+            {
+              timeBlocks.map((block, blockIndex) => (
+                <div key={blockIndex} className="time-block">
+                  <input
+                    type="time"
+                    value={block.startTime}
+                    onChange={(event) => updateDay(dayIndex, timeBlocks.map((entry, index) =>
+                      index === blockIndex ? { ...entry, startTime: event.target.value } : entry,
+                    ))}
+                  />
+                  <span>–</span>
+                  <input
+                    type="time"
+                    value={block.endTime}
+                    onChange={(event) => updateDay(dayIndex, timeBlocks.map((entry, index) =>
+                      index === blockIndex ? { ...entry, endTime: event.target.value } : entry,
+                    ))}
+                  />
+                  <button onClick={() => updateDay(dayIndex, timeBlocks.filter((_, index) => index !== blockIndex))}>
+                    Remove
+                  </button>
+                </div>
+              ))
+            }
+            <button onClick={() => updateDay(dayIndex, [...timeBlocks, DEFAULT_BLOCK])}>Add block</button>
+            {
+              errorsByDay[dayIndex].map(error => (
+                <p key={error} className="form-error">{ error }</p>
+              ))
+            }
+          </div>
+        ))
+      }
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { TimerEvents } from '@/shared/enums.ts';
+import type { IpcEvents } from '@/shared/types.ts';
+
+type CatchUp = IpcEvents[TimerEvents.CATCH_UP];
+
+// Asks whether the phases that passed while the computer slept should count
+export function CatchUpPrompt() {
+  const [catchUp, setCatchUp] = useState<CatchUp | null>(null);
+
+  useEffect(() => {
+    const { bus, logger } = window.kazari;
+    bus
+      .get('timer:catchup:pending')
+      .then(setCatchUp)
+      .catch((error) => logger.error('Failed to load pending catch-up', error));
+    const unsubscribers = [
+      bus.on(TimerEvents.CATCH_UP, setCatchUp),
+      // Answered here or in another window
+      bus.on(TimerEvents.RESUMED, () => setCatchUp(null)),
+      bus.on(TimerEvents.STOPPED, () => setCatchUp(null)),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, []);
+
+  if (!catchUp) return null;
+
+  const resolve = (countElapsed: boolean) => {
+    window.kazari.bus
+      .command(TimerEvents.RESOLVE_CATCH_UP, countElapsed)
+      .then(() => setCatchUp(null))
+      .catch((error) => window.kazari.logger.error('Failed to resolve catch-up', error));
+  };
+  const awayMinutes = Math.round((catchUp.resumedAt - catchUp.suspendedAt) / 60_000);
+
+  return (
+    <div className="timer-prompt">
+      <p>
+        You were away for { awayMinutes } min, { catchUp.elapsedPhases.length } phases would have run.
+        Count them as done?
+      </p>
+      <div className="phase-actions">
+        <button onClick={() => resolve(true)}>Count them</button>
+        <button onClick={() => resolve(false)}>Continue where I left off</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import type { PhaseSnapshot } from '@/shared/types.ts';
+import { ProgressRing } from './ProgressRing.tsx';
+
+interface CountdownProps {
+  phase: PhaseSnapshot;
+}
+
+export function formatDuration(ms: number) {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+export const Countdown: React.FC<CountdownProps> = ({ phase }) => {
+  const progress = phase.allocatedTime ? phase.elapsedTime / phase.allocatedTime : 0;
+  const isOverrunning = phase.remainingTime <= 0 && phase.overrunTime > 0;
+
+  return (
+    <ProgressRing progress={progress}>
+      <span className="countdown-time">
+        {isOverrunning
+          ? `+${formatDuration(phase.overrunTime)}`
+          : formatDuration(phase.startTime ? phase.remainingTime : phase.allocatedTime)}
+      </span>
+      {phase.isPaused && <span className="countdown-status">Paused</span>}
+    </ProgressRing>
+  );
+};
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { getTimeBlockErrors } from '@/shared/scheduleUtils.ts';
+import type { ScheduleConfig } from '@/shared/types.ts';
+
+interface DateOverrideEditorProps {
+  schedule: ScheduleConfig;
+  onChange: (schedule: ScheduleConfig) => void;
+}
+
+type DateOverride = ScheduleConfig['overrides'][number];
+type TimeBlock = DateOverride['timeBlocks'][number];
+
+const DEFAULT_BLOCK: TimeBlock = { startTime: '09:00', endTime: '12:00' };
+
+export const DateOverrideEditor: React.FC<DateOverrideEditorProps> = ({ schedule, onChange }) => {
+  const [overrides, setOverrides] = useState<DateOverride[]>(() => schedule.overrides ?? []);
+  const [newDate, setNewDate] = useState('');
+  const errorsByOverride = overrides.map(({ timeBlocks }) => getTimeBlockErrors(timeBlocks));
+
+  const update = (nextOverrides: DateOverride[]) => {
+    setOverrides(nextOverrides);
+    const isValid = nextOverrides.every(({ timeBlocks }) => !getTimeBlockErrors(timeBlocks).length);
+    if (isValid) {
+      onChange({ ...schedule, overrides: nextOverrides });
+    }
+  };
+
+  const updateOverride = (overrideIndex: number, changes: Partial<DateOverride>) => {
+    update(overrides.map((entry, index) => index === overrideIndex ? { ...entry, ...changes } : entry));
+  };
+
+  const addOverride = () => {
+    if (!newDate || overrides.some(({ date }) => date === newDate)) return;
+    update([...overrides, { date: newDate, timeBlocks: [] }].sort((a, b) => a.date.localeCompare(b.date)));
+    setNewDate('');
+  };
+
+  return (
+    <div className="date-override-editor">
+      {
+        overrides.map(({ date, label, timeBlocks }, overrideIndex) => (
+          <div key={date} className="date-override">
+            <h3>{ date }</h3>
+            <input
+              type="text"
+              placeholder="Label"
+              value={label ?? ''}
+              onChange={(event) => updateOverride(overrideIndex, { label: event.target.value || undefined })}
+            />
+            { !timeBlocks.length && <p>Day off</p> }
+            {
+              timeBlocks.map((block, blockIndex) => (
+                <div key={blockIndex} className="time-block">
+                  <input
+                    type="time"
+                    value={block.startTime}
+                    onChange={(event) => updateOverride(overrideIndex, {
+                      timeBlocks: timeBlocks.map((entry, index) =>
+                        index === blockIndex ? { ...entry, startTime: event.target.value } : entry,
+                      ),
+                    })}
+                  />
+                  <span>–</span>
+                  <input
+                    type="time"
+                    value={block.endTime}
+                    onChange={(event) => updateOverride(overrideIndex, {
+                      timeBlocks: timeBlocks.map((entry, index) =>
+                        index === blockIndex ? { ...entry, endTime: event.target.value } : entry,
+                      ),
+                    })}
+                  />
+                  <button
+                    onClick={() => updateOverride(overrideIndex, {
+                      timeBlocks: timeBlocks.filter((_, index) => index !== blockIndex),
+                    })}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))
+            }
+            <button onClick={() => updateOverride(overrideIndex, { timeBlocks: [...timeBlocks, DEFAULT_BLOCK] })}>
+              Add block
+            </button>
+            <button onClick={() => update(overrides.filter((_, index) => index !== overrideIndex))}>
+              Remove date
+            </button>
+            {
+              errorsByOverride[overrideIndex].map(error => (
+                <p key={error} className="form-error">{ error }</p>
+              ))
+            }
+          </div>
+        ))
+      }
+      <div className="time-block">
+        <input type="date" value={newDate} onChange={(event) => setNewDate(event.target.value)} />
+        <button onClick={addOverride} disabled={!newDate}>Add date</button>
+      </div>
+    </div>
+  );
+};
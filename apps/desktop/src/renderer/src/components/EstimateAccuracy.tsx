@@ -0,0 +1,48 @@
+import type { EstimateAccuracy as EstimateAccuracyData } from '@/shared/types.ts';
+
+interface EstimateAccuracyProps {
+  estimates: EstimateAccuracyData;
+}
+
+function formatAccuracy(accuracy: number) {
+  return `${Math.round(accuracy * 100)}%`;
+}
+
+export const EstimateAccuracy: React.FC<EstimateAccuracyProps> = ({ estimates }) => {
+  if (!estimates.tasks.length) {
+    return <p>Finish a task with a pomodoro estimate to see how your estimates hold up.</p>;
+  }
+
+  return (
+    <div className="estimate-accuracy">
+      <p>
+        Average { formatAccuracy(estimates.averageAccuracy ?? 0) } of estimate: { estimates.onTarget } on target,
+        { ' ' }{ estimates.underestimated } underestimated, { estimates.overestimated } overestimated
+      </p>
+      <table>
+        <thead>
+          <tr>
+            <th>Task</th>
+            <th>Estimated</th>
+            <th>Actual</th>
+            <th>Focus</th>
+            <th>Accuracy</th>
+          </tr>
+        </thead>
+        <tbody>
+          {
+            estimates.tasks.map(task => (
+              <tr key={task.taskId}>
+                <td>{ task.title }</td>
+                <td>{ task.estimatedPomodoros }</td>
+                <td>{ task.actualPomodoros }</td>
+                <td>{ task.actualFocusMinutes }m</td>
+                <td className={task.accuracy > 1 ? 'over-estimate' : undefined}>{ formatAccuracy(task.accuracy) }</td>
+              </tr>
+            ))
+          }
+        </tbody>
+      </table>
+    </div>
+  );
+};
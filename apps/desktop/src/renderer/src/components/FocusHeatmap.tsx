@@ -0,0 +1,36 @@
+interface FocusHeatmapProps {
+  heatmap: number[][];
+}
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export const FocusHeatmap: React.FC<FocusHeatmapProps> = ({ heatmap }) => {
+  const max = Math.max(1, ...heatmap.flat());
+
+  return (
+    <div className="heatmap">
+      <div className="heatmap-row">
+        <span className="heatmap-label" />
+        {HOURS.map((hour) => (
+          <span key={hour} className="heatmap-hour">
+            {hour % 6 === 0 ? hour : ''}
+          </span>
+        ))}
+      </div>
+      {heatmap.map((hours, day) => (
+        <div key={DAYS[day]} className="heatmap-row">
+          <span className="heatmap-label">{DAYS[day]}</span>
+          {hours.map((minutes, hour) => (
+            <span
+              key={hour}
+              className="heatmap-cell"
+              title={`${DAYS[day]} ${hour}:00 - ${minutes} min`}
+              style={{ opacity: minutes ? 0.2 + (minutes / max) * 0.8 : 0.05 }}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { SchedulerEvents } from '@/shared/enums.ts';
+import type { ScheduleConfig } from '@/shared/types.ts';
+
+interface HolidayEditorProps {
+  schedule: ScheduleConfig;
+  onChange: (schedule: ScheduleConfig) => void;
+}
+
+export const HolidayEditor: React.FC<HolidayEditorProps> = ({ schedule, onChange }) => {
+  const [date, setDate] = useState('');
+  const [name, setName] = useState('');
+  const holidays = schedule.holidays ?? [];
+
+  const addHoliday = () => {
+    if (!date || holidays.some(holiday => holiday.date === date)) return;
+    onChange({
+      ...schedule,
+      holidays: [...holidays, { date, name: name || 'Holiday' }].sort((a, b) => a.date.localeCompare(b.date)),
+    });
+    setDate('');
+    setName('');
+  };
+
+  const importHolidays = () => {
+    const { bus, logger } = window.kazari;
+    bus
+      .command(SchedulerEvents.IMPORT_HOLIDAYS)
+      .catch((error) => logger.error('Failed to import holidays', error));
+  };
+
+  return (
+    <div className="holiday-editor">
+      <ul>
+        {
+          holidays.map(holiday => (
+            <li key={holiday.date} className="time-block">
+              <span>{ holiday.date }</span>
+              <span>{ holiday.name }</span>
+              <button
+                onClick={() => onChange({
+                  ...schedule,
+                  holidays: holidays.filter(entry => entry.date !== holiday.date),
+                })}
+              >
+                Remove
+              </button>
+            </li>
+          ))
+        }
+      </ul>
+      <div className="time-block">
+        <input type="date" value={date} onChange={(event) => setDate(event.target.value)} />
+        <input type="text" placeholder="Name" value={name} onChange={(event) => setName(event.target.value)} />
+        <button onClick={addHoliday} disabled={!date}>Add holiday</button>
+        <button onClick={importHolidays}>Import .ics</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { TimerEvents } from '@/shared/enums.ts';
+import type { IpcEvents } from '@/shared/types.ts';
+
+type Interruption = IpcEvents[TimerEvents.INTERRUPTED];
+
+const RESOLVING_EVENTS = [
+  TimerEvents.PHASE_SET,
+  TimerEvents.PHASE_START,
+  TimerEvents.RESUMED,
+  TimerEvents.STOPPED,
+] as const;
+
+// Offers to mark the session that was running when the app went down as interrupted
+export function InterruptionPrompt() {
+  const [interruption, setInterruption] = useState<Interruption | null>(null);
+
+  useEffect(() => {
+    const { bus, logger } = window.kazari;
+    bus
+      .get('timer:interruption:pending')
+      .then(setInterruption)
+      .catch((error) => logger.error('Failed to load pending interruption', error));
+    const unsubscribers = [
+      bus.on(TimerEvents.INTERRUPTED, setInterruption),
+      // Answered here or in another window
+      ...RESOLVING_EVENTS.map((event) => bus.on(event, () => setInterruption(null))),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, []);
+
+  if (!interruption) return null;
+
+  const resolve = (markInterrupted: boolean) => {
+    window.kazari.bus
+      .command(TimerEvents.RESOLVE_INTERRUPTION, markInterrupted)
+      .then(() => setInterruption(null))
+      .catch((error) => window.kazari.logger.error('Failed to resolve interruption', error));
+  };
+  const savedAt = new Date(interruption.savedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="timer-prompt">
+      <p>
+        Kazari closed at { savedAt } in the middle of a { interruption.phase.type.replace('_', ' ') } phase.
+        Mark it as interrupted?
+      </p>
+      <div className="phase-actions">
+        <button onClick={() => resolve(true)}>Mark as interrupted</button>
+        <button onClick={() => resolve(false)}>Continue it</button>
+      </div>
+    </div>
+  );
+}
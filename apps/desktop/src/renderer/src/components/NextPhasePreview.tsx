@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import { Phases, SchedulerEvents } from '@/shared/enums.ts';
+import type { PhaseSnapshot, Task } from '@/shared/types.ts';
+
+interface NextPhasePreviewProps {
+  phase: PhaseSnapshot;
+}
+
+const PHASE_LABELS: Record<Phases, string> = {
+  [Phases.FOCUS]: 'Focus',
+  [Phases.BREAK]: 'Break',
+  [Phases.LONG_BREAK]: 'Long break',
+  [Phases.PLANNING]: 'Planning',
+};
+
+export const NextPhasePreview: React.FC<NextPhasePreviewProps> = ({ phase }) => {
+  const [task, setTask] = useState<Task | undefined>();
+
+  // The task planned for the upcoming focus slot, not the one being worked on now
+  useEffect(() => {
+    if (phase.type !== Phases.FOCUS) return;
+    const { bus, logger } = window.kazari;
+    const refreshTask = () =>
+      Promise.all([bus.get('schedule:slot:focus:next'), bus.get('tasks:all')])
+        .then(([slot, tasks]) => setTask(tasks.find(task => task.id === slot?.taskIds[0])))
+        .catch((error) => logger.error('Failed to load the next focus task', error));
+    refreshTask();
+    const unsubscribers = [
+      bus.on(SchedulerEvents.TASKS_ASSIGNED, refreshTask),
+      bus.on(SchedulerEvents.PLAN_UPDATED, refreshTask),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [phase.type, phase.startTime]);
+
+  return (
+    <div className="next-phase">
+      <span className="next-phase-label">Up next</span>
+      <span className="next-phase-type">
+        {PHASE_LABELS[phase.type]} · {Math.round(phase.allocatedTime / 60_000)} min
+      </span>
+      {phase.type === Phases.FOCUS && (
+        <span className="next-phase-task">{task ? task.title : 'No task planned'}</span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import { Phases } from '@/shared/enums.ts';
+import type { PhaseType } from '@/shared/types.ts';
+
+interface PhaseEditorProps {
+  phases: PhaseType[];
+  onChange: (phases: PhaseType[]) => void;
+}
+
+const PHASE_LABELS: Record<Phases, string> = {
+  [Phases.FOCUS]: 'Focus',
+  [Phases.BREAK]: 'Break',
+  [Phases.LONG_BREAK]: 'Long break',
+  [Phases.PLANNING]: 'Planning',
+};
+
+const toMinutes = (ms: number) => Math.round(ms / 60_000);
+const toMs = (minutes: number) => minutes * 60_000;
+
+export const PhaseEditor: React.FC<PhaseEditorProps> = ({ phases, onChange }) => {
+  const updatePhase = (phaseIndex: number, changes: Partial<PhaseType>) => {
+    onChange(phases.map((phase, index) => (index === phaseIndex ? { ...phase, ...changes } : phase)));
+  };
+
+  return (
+    <table className="phase-editor">
+      <thead>
+        <tr>
+          <th>Phase</th>
+          <th>Duration (min)</th>
+          <th>Can overrun</th>
+          <th>Overrun cap (min)</th>
+        </tr>
+      </thead>
+      <tbody>
+        {
+          phases.map((phase, index) => (
+            // A phase type can come up more than once, the rows keep their order
+            <tr key={index}>
+              <td>{ PHASE_LABELS[phase.type] }</td>
+              <td>
+                <input
+                  type="number"
+                  min={1}
+                  value={toMinutes(phase.allocatedTime)}
+                  onChange={(event) => {
+                    const minutes = Number(event.target.value);
+                    if (minutes >= 1) updatePhase(index, { allocatedTime: toMs(minutes) });
+                  }}
+                />
+              </td>
+              <td>
+                <input
+                  type="checkbox"
+                  checked={phase.canOverrun ?? false}
+                  onChange={(event) => updatePhase(index, { canOverrun: event.target.checked })}
+                />
+              </td>
+              <td>
+                <input
+                  type="number"
+                  min={0}
+                  disabled={!phase.canOverrun}
+                  placeholder="No cap"
+                  value={phase.overrunCap === undefined ? '' : toMinutes(phase.overrunCap)}
+                  onChange={(event) => updatePhase(index, {
+                    overrunCap: event.target.value === '' ? undefined : toMs(Number(event.target.value)),
+                  })}
+                />
+              </td>
+            </tr>
+          ))
+        }
+      </tbody>
+    </table>
+  );
+};
@@ -0,0 +1,15 @@
+interface StatCardProps {
+  label: string;
+  value: string | number;
+  hint?: string;
+}
+
+export const StatCard: React.FC<StatCardProps> = ({ label, value, hint }) => {
+  return (
+    <div className="stat-card">
+      <span className="stat-card-label">{label}</span>
+      <span className="stat-card-value">{value}</span>
+      {hint && <span className="stat-card-hint">{hint}</span>}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import type { Task, TaskInput } from '@/shared/types.ts';
+
+interface TaskFormProps {
+  task?: Task;
+  tasks?: Task[]; // Candidates for subtasks
+  onSubmit: (task: TaskInput) => void;
+  onCancel?: () => void;
+}
+
+const PRIORITIES = ['low', 'medium', 'high'];
+
+function parseTags(value: string) {
+  return value.split(',').map(tag => tag.trim()).filter(Boolean);
+}
+
+function toDateInputValue(date?: Date) {
+  if (!date) return '';
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export const TaskForm: React.FC<TaskFormProps> = ({ task, tasks = [], onSubmit, onCancel }) => {
+  const [title, setTitle] = useState(task?.title ?? '');
+  const [description, setDescription] = useState(task?.description ?? '');
+  const [priority, setPriority] = useState(task?.priority ?? 'medium');
+  const [dueDate, setDueDate] = useState(toDateInputValue(task?.dueDate));
+  const [estimatedPomodoros, setEstimatedPomodoros] = useState(task?.estimatedPomodoros?.toString() ?? '');
+  const [tags, setTags] = useState(task?.tags.join(', ') ?? '');
+  const [subtasks, setSubtasks] = useState<string[]>(task?.subtasks ?? []);
+  const subtaskCandidates = tasks.filter(candidate => candidate.id !== task?.id);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!title.trim()) return;
+    onSubmit({
+      title: title.trim(),
+      description: description.trim() || undefined,
+      priority,
+      state: task?.state,
+      dueDate: dueDate ? new Date(`${dueDate}T00:00:00`) : undefined,
+      estimatedPomodoros: estimatedPomodoros ? Number(estimatedPomodoros) : undefined,
+      tags: parseTags(tags),
+      subtasks,
+    });
+    if (!task) {
+      setTitle('');
+      setDescription('');
+      setPriority('medium');
+      setDueDate('');
+      setEstimatedPomodoros('');
+      setTags('');
+      setSubtasks([]);
+    }
+  };
+
+  return (
+    <form className="task-form" onSubmit={handleSubmit}>
+      <input
+        placeholder="Task title"
+        maxLength={100}
+        value={title}
+        onChange={(event) => setTitle(event.target.value)}
+      />
+      <textarea
+        placeholder="Description"
+        maxLength={500}
+        value={description}
+        onChange={(event) => setDescription(event.target.value)}
+      />
+      <select value={priority} onChange={(event) => setPriority(event.target.value)}>
+        {
+          PRIORITIES.map(priority => (
+            <option key={priority} value={priority}>{ priority }</option>
+          ))
+        }
+      </select>
+      <input type="date" value={dueDate} onChange={(event) => setDueDate(event.target.value)} />
+      <input
+        type="number"
+        placeholder="Pomodoros"
+        min={1}
+        max={99}
+        value={estimatedPomodoros}
+        onChange={(event) => setEstimatedPomodoros(event.target.value)}
+      />
+      <input
+        placeholder="Tags, comma separated"
+        value={tags}
+        onChange={(event) => setTags(event.target.value)}
+      />
+      {
+        subtaskCandidates.length > 0 && (
+          <select
+            multiple
+            title="Subtasks"
+            value={subtasks}
+            onChange={(event) => setSubtasks(Array.from(event.target.selectedOptions, option => option.value))}
+          >
+            {
+              subtaskCandidates.map(candidate => (
+                <option key={candidate.id} value={candidate.id}>{ candidate.title }</option>
+              ))
+            }
+          </select>
+        )
+      }
+      <button type="submit">{ task ? 'Save' : 'Add task' }</button>
+      { onCancel && <button type="button" onClick={onCancel}>Cancel</button> }
+    </form>
+  )
+}
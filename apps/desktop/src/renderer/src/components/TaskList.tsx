@@ -1,31 +1,94 @@
-export interface Task {
-  id: number;
-  title: string;
-  completed: boolean;
-}
+import { TaskStates } from '@/shared/enums.ts';
+import type { Task } from '@/shared/types.ts';
 
 interface TaskListProps {
   tasks: Task[];
-  onComplete: (taskId: number) => void;
-  onSelect: (taskId: number) => void;
-  selectedTaskId?: number;
+  onComplete: (taskId: string) => void;
+  onSelect: (taskId: string) => void;
+  onStateChange?: (taskId: string, state: TaskStates) => void;
+  onEdit?: (task: Task) => void;
+  onDelete?: (taskId: string) => void;
+  selectedTaskId?: string;
   selectable?: boolean;
 }
 
+const STATE_LABELS: Record<TaskStates, string> = {
+  [TaskStates.PENDING]: 'Pending',
+  [TaskStates.IN_PROGRESS]: 'In progress',
+  [TaskStates.COMPLETED]: 'Completed',
+  [TaskStates.CANCELLED]: 'Cancelled',
+  [TaskStates.ON_HOLD]: 'On hold',
+  [TaskStates.ARCHIVED]: 'Archived',
+  [TaskStates.DELETED]: 'Deleted',
+};
+
+function countCompletedSubtasks(task: Task, tasks: Task[]) {
+  return tasks.filter(subtask => task.subtasks.includes(subtask.id) && subtask.state === TaskStates.COMPLETED).length;
+}
+
 export const TaskList: React.FC<TaskListProps> = ({
   tasks,
   onComplete,
   onSelect,
+  onStateChange,
+  onEdit,
+  onDelete,
   selectedTaskId,
   selectable = false,
 }) => {
   return (
-    <ul>
+    <ul className="task-list">
       {
         tasks.map(task => (
-          <li key={task.id}>
-            <span>{ task.title }</span>
-            { task.completed && <span>(Completed)</span> }
+          <li
+            key={task.id}
+            className={`task-list-item ${task.id === selectedTaskId ? 'selected' : ''}`}
+            onClick={() => selectable && onSelect(task.id)}
+          >
+            <input
+              type="checkbox"
+              checked={task.state === TaskStates.COMPLETED}
+              disabled={task.state === TaskStates.COMPLETED}
+              onClick={(event) => event.stopPropagation()}
+              onChange={() => onComplete(task.id)}
+            />
+            <span className="task-title">{ task.title }</span>
+            <span className={`task-priority ${task.priority}`}>{ task.priority }</span>
+            { task.dueDate && <span className="task-due">{ task.dueDate.toLocaleDateString() }</span> }
+            {
+              (task.estimatedPomodoros || task.completedPomodoros > 0) && (
+                <span className="task-pomodoros" title="Completed / estimated pomodoros">
+                  { task.completedPomodoros }/{ task.estimatedPomodoros ?? '?' }
+                </span>
+              )
+            }
+            {
+              task.subtasks.length > 0 && (
+                <span className="task-subtasks" title="Completed subtasks">
+                  { countCompletedSubtasks(task, tasks) }/{ task.subtasks.length } subtasks
+                </span>
+              )
+            }
+            { task.tags.map(tag => <span key={tag} className="task-tag">#{ tag }</span>) }
+            {
+              onStateChange ? (
+                <select
+                  value={task.state}
+                  onClick={(event) => event.stopPropagation()}
+                  onChange={(event) => onStateChange(task.id, event.target.value as TaskStates)}
+                >
+                  {
+                    Object.values(TaskStates).map(state => (
+                      <option key={state} value={state}>{ STATE_LABELS[state] }</option>
+                    ))
+                  }
+                </select>
+              ) : (
+                <span className="task-state">{ STATE_LABELS[task.state] }</span>
+              )
+            }
+            { onEdit && <button onClick={(event) => { event.stopPropagation(); onEdit(task); }}>Edit</button> }
+            { onDelete && <button onClick={(event) => { event.stopPropagation(); onDelete(task.id); }}>Delete</button> }
           </li>
         ))
       }
@@ -0,0 +1,27 @@
+import { getSystemTimeZone } from '@/shared/dateUtils.ts';
+import type { ScheduleConfig } from '@/shared/types.ts';
+
+interface TimeZoneSelectProps {
+  schedule: ScheduleConfig;
+  onChange: (schedule: ScheduleConfig) => void;
+}
+
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
+export const TimeZoneSelect: React.FC<TimeZoneSelectProps> = ({ schedule, onChange }) => {
+  const timeZone = schedule.timeZone ?? getSystemTimeZone();
+
+  return (
+    <label className="time-zone-select">
+      Time zone
+      <select value={timeZone} onChange={(event) => onChange({ ...schedule, timeZone: event.target.value })}>
+        { !TIME_ZONES.includes(timeZone) && <option value={timeZone}>{ timeZone }</option> }
+        {
+          TIME_ZONES.map(zone => (
+            <option key={zone} value={zone}>{ zone }</option>
+          ))
+        }
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ConfigEvents } from '@/shared/enums.ts';
+import type { ConfigSetArgs, EditableConfig } from '@/shared/types.ts';
+
+// One setter per key, so a setter picked by a generic key still takes only its own value
+type ConfigSetters = {
+  [K in keyof EditableConfig]: (key: K, value: EditableConfig[K]) => Promise<void>;
+};
+
+export function useConfig<K extends keyof EditableConfig>(key: K) {
+  const [value, setValue] = useState<EditableConfig[K] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    const { bus, logger } = window.kazari;
+    bus
+      .get('config:get', key)
+      .then((value) => setValue(value as EditableConfig[K]))
+      .catch((error) => logger.error(`Failed to load config "${key}"`, error));
+  }, [key]);
+
+  useEffect(() => {
+    load();
+    return window.kazari.bus.on(ConfigEvents.CHANGED, (payload) => {
+      if (payload.key === key) setValue(payload.value as EditableConfig[K]);
+    });
+  }, [key, load]);
+
+  const save = useCallback((value: EditableConfig[K]) => {
+    const setConfig: ConfigSetters[K] = (...args: ConfigSetArgs) =>
+      window.kazari.bus.command(ConfigEvents.SET, ...args);
+    setValue(value);
+    setConfig(key, value)
+      .then(() => setError(null))
+      .catch((error: Error) => {
+        setError(error.message);
+        // The main process kept the stored value, show it again
+        load();
+      });
+  }, [key, load]);
+
+  return { value, save, error };
+}
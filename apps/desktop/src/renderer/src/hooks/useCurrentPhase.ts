@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { TimerEvents } from '@/shared/enums.ts';
+import type { PhaseSnapshot } from '@/shared/types.ts';
+
+const PHASE_EVENTS = [
+  TimerEvents.PHASE_SET,
+  TimerEvents.PHASE_START,
+  TimerEvents.PHASE_END,
+  TimerEvents.TICK,
+  TimerEvents.OVERRUN_TICK,
+  TimerEvents.PAUSED,
+  TimerEvents.RESUMED,
+  TimerEvents.STOPPED,
+  TimerEvents.RESTORED,
+  TimerEvents.EXTENDED,
+] as const;
+
+export function useCurrentPhase() {
+  const [phase, setPhase] = useState<PhaseSnapshot | null>(null);
+  const [nextPhase, setNextPhase] = useState<PhaseSnapshot | null>(null);
+
+  useEffect(() => {
+    const { bus, logger } = window.kazari;
+    const refreshNextPhase = () =>
+      bus
+        .get('timer:phase:next')
+        .then(setNextPhase)
+        .catch((error) => logger.error('Failed to load next phase', error));
+
+    bus
+      .get('timer:phase:current')
+      .then(setPhase)
+      .catch((error) => logger.error('Failed to load current phase', error));
+    refreshNextPhase();
+
+    const unsubscribers = PHASE_EVENTS.map((event) =>
+      bus.on(event, (payload) => {
+        setPhase(payload.phase);
+        if (event === TimerEvents.PHASE_START || event === TimerEvents.PHASE_SET) {
+          refreshNextPhase();
+        }
+      }),
+    );
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, []);
+
+  return { phase, nextPhase };
+}
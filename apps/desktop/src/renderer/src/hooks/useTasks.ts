@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from 'react';
+import { TaskEvents, TaskStates } from '@/shared/enums.ts';
+import type { Task, TaskInput } from '@/shared/types.ts';
+
+export function useTasks() {
+  const [tasks, setTasks] = useState<Task[]>([]);
+
+  useEffect(() => {
+    const { bus, logger } = window.kazari;
+    bus
+      .get('tasks:all')
+      .then(setTasks)
+      .catch((error) => logger.error('Failed to load tasks', error));
+    return bus.on(TaskEvents.CHANGED, (payload) => setTasks(payload.tasks));
+  }, []);
+
+  const run = useCallback((action: string, command: Promise<void>) => {
+    command.catch((error) => window.kazari.logger.error(`Failed to ${action} task`, error));
+  }, []);
+
+  return {
+    tasks,
+    createTask: (task: TaskInput) =>
+      run('create', window.kazari.bus.command(TaskEvents.CREATE, task)),
+    updateTask: (id: string, task: TaskInput) =>
+      run('update', window.kazari.bus.command(TaskEvents.UPDATE, id, task)),
+    setTaskState: (id: string, state: TaskStates) =>
+      run('update', window.kazari.bus.command(TaskEvents.SET_STATE, id, state)),
+    deleteTask: (id: string) =>
+      run('delete', window.kazari.bus.command(TaskEvents.DELETE, id)),
+  };
+}
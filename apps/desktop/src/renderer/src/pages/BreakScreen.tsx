@@ -1,10 +1,32 @@
+import { TimerActions, TimerEvents } from '@/shared/enums.ts';
+import { useCurrentPhase } from '../hooks/useCurrentPhase.ts';
+import { Countdown } from '../components/Countdown.tsx';
+import { NextPhasePreview } from '../components/NextPhasePreview.tsx';
+
+const EXTEND_DURATION = 5 * 60 * 1000;
+
 export function BreakScreen() {
+  const { phase, nextPhase } = useCurrentPhase();
+
+  const sendAction = (action: TimerActions, duration?: number) => {
+    window.kazari.bus
+      .command(TimerEvents.ACTION, action, duration)
+      .catch((error) => window.kazari.logger.error(`Failed to ${action} the break`, error));
+  };
+
   return (
-    <div>
+    <div className="phase-screen">
       <h1>Break Screen</h1>
       <p>Take a moment to relax and recharge!</p>
+      {phase && <Countdown phase={phase} />}
+      {nextPhase && <NextPhasePreview phase={nextPhase} />}
+      <div className="phase-actions">
+        <button onClick={() => sendAction(TimerActions.SKIP)}>Skip break</button>
+        <button onClick={() => sendAction(TimerActions.EXTEND, EXTEND_DURATION)}>
+          Extend 5 min
+        </button>
+      </div>
       <p>Remember to stretch and hydrate.</p>
-      <p>Enjoy your break!</p>
     </div>
   );
 }
@@ -1,8 +1,116 @@
+import { useEffect, useState } from 'react';
+import { DailyPlanningEvents } from '@/shared/enums.ts';
+import {
+  clampPlannedPomodoros,
+  getDefaultPlannedPomodoros,
+  getPlanningFit,
+  MAX_PLANNED_POMODOROS,
+  type PlannedTaskFit,
+} from '@/shared/planningUtils.ts';
+import type { PlannedTask, ScheduleSlot, Task } from '@/shared/types.ts';
+
+function formatTime(date: Date) {
+  return new Date(date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function describeFit(fit: PlannedTaskFit | undefined) {
+  if (!fit) return null;
+  if (!fit.slots.length) return `${fit.missingPomodoros} pomodoros don't fit today`;
+  const range = `${formatTime(fit.slots[0].startTime)}–${formatTime(fit.slots.at(-1)!.endTime)}`;
+  if (!fit.missingPomodoros) return range;
+  return `${range}, ${fit.missingPomodoros} pomodoros don't fit`;
+}
+
 export function DailyPlanning() {
+  const [candidates, setCandidates] = useState<Task[]>([]);
+  const [slots, setSlots] = useState<ScheduleSlot[]>([]);
+  const [plannedTasks, setPlannedTasks] = useState<PlannedTask[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const { bus, logger } = window.kazari;
+    Promise.all([
+      bus.get('planning:daily:candidates'),
+      bus.get('schedule:slots:available'),
+      bus.get('planning:daily:today'),
+    ])
+      .then(([candidates, slots, planning]) => {
+        setCandidates(candidates);
+        setSlots(slots);
+        if (planning) setPlannedTasks(planning.tasks);
+      })
+      .catch((error) => logger.error('Failed to load daily planning', error));
+  }, []);
+
+  const fit = getPlanningFit(plannedTasks, slots);
+  const getPlannedTask = (taskId: string) => plannedTasks.find(task => task.taskId === taskId);
+
+  const toggleTask = (task: Task) => {
+    setPlannedTasks(getPlannedTask(task.id)
+      ? plannedTasks.filter(plannedTask => plannedTask.taskId !== task.id)
+      : [...plannedTasks, { taskId: task.id, estimatedPomodoros: getDefaultPlannedPomodoros(task) }]);
+  };
+
+  const setEstimate = (taskId: string, estimatedPomodoros: number) => {
+    setPlannedTasks(plannedTasks.map(task =>
+      task.taskId === taskId ? { ...task, estimatedPomodoros: clampPlannedPomodoros(estimatedPomodoros) } : task,
+    ));
+  };
+
+  const startDay = () => {
+    window.kazari.bus
+      .command(DailyPlanningEvents.SAVE, plannedTasks)
+      .then(() => setError(null))
+      .catch((error: Error) => setError(error.message));
+  };
+
   return (
-    <div>
-      <h1>Daily Planning</h1>
-      <p>Welcome to the daily planning page!</p>
+    <div className="daily-planning">
+      <h1>Plan your day</h1>
+      <p>
+        { fit.estimatedPomodoros } of { fit.availablePomodoros } pomodoros planned
+      </p>
+      {
+        fit.overCommittedBy > 0 && (
+          <p className="form-error">
+            You're over-committed by { fit.overCommittedBy } pomodoros, today's schedule won't fit everything.
+          </p>
+        )
+      }
+      { !candidates.length && <p>No pending tasks, add some in the task manager.</p> }
+      <ul className="planning-tasks">
+        {
+          candidates.map(task => {
+            const plannedTask = getPlannedTask(task.id);
+            return (
+              <li key={task.id} className="planning-task">
+                <label>
+                  <input type="checkbox" checked={Boolean(plannedTask)} onChange={() => toggleTask(task)} />
+                  { task.title }
+                </label>
+                {
+                  plannedTask && (
+                    <>
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_PLANNED_POMODOROS}
+                        value={plannedTask.estimatedPomodoros}
+                        onChange={(event) => setEstimate(task.id, Number(event.target.value))}
+                      />
+                      <span className="planning-fit">
+                        { describeFit(fit.tasks.find(taskFit => taskFit.taskId === task.id)) }
+                      </span>
+                    </>
+                  )
+                }
+              </li>
+            );
+          })
+        }
+      </ul>
+      { error && <p className="form-error">{ error }</p> }
+      <button onClick={startDay}>Start my day</button>
     </div>
   );
 }
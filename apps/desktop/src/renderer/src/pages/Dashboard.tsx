@@ -1,8 +1,94 @@
+import { useEffect, useState } from 'react';
+import { DailyPlanningEvents, SettingsEvents } from '@/shared/enums.ts';
+import type { EstimateAccuracy as EstimateAccuracyData, StatsSummary } from '@/shared/types.ts';
+import { StatCard } from '../components/StatCard.tsx';
+import { FocusHeatmap } from '../components/FocusHeatmap.tsx';
+import { EstimateAccuracy } from '../components/EstimateAccuracy.tsx';
+
+function formatMinutes(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  if (!hours) return `${minutes}m`;
+  return `${hours}h ${minutes % 60}m`;
+}
+
+function openSettings() {
+  window.kazari.bus
+    .command(SettingsEvents.OPEN)
+    .catch((error) => window.kazari.logger.error('Failed to open settings', error));
+}
+
+function openDailyPlanning() {
+  window.kazari.bus
+    .command(DailyPlanningEvents.OPEN)
+    .catch((error) => window.kazari.logger.error('Failed to open daily planning', error));
+}
+
 export function Dashboard() {
+  const [stats, setStats] = useState<StatsSummary | null>(null);
+  const [estimates, setEstimates] = useState<EstimateAccuracyData | null>(null);
+
+  useEffect(() => {
+    window.kazari.bus
+      .get('stats:summary')
+      .then(setStats)
+      .catch((error) => window.kazari.logger.error('Failed to load stats', error));
+    window.kazari.bus
+      .get('stats:estimates')
+      .then(setEstimates)
+      .catch((error) => window.kazari.logger.error('Failed to load estimates', error));
+  }, []);
+
+  if (!stats) {
+    return (
+      <div>
+        <h1>Dashboard</h1>
+        <p>Loading statistics...</p>
+      </div>
+    );
+  }
+
+  const maxWeekMinutes = Math.max(1, ...stats.week.map((day) => day.focusMinutes));
+
   return (
     <div>
       <h1>Dashboard</h1>
-      <p>Welcome to the dashboard!</p>
+      <button onClick={openSettings}>Settings</button>
+      <button onClick={openDailyPlanning}>Plan my day</button>
+      <div className="stat-grid">
+        <StatCard label="Focus today" value={formatMinutes(stats.today.focusMinutes)} />
+        <StatCard label="Focus this week" value={formatMinutes(stats.weeklyFocusMinutes)} />
+        <StatCard
+          label="Pomodoros"
+          value={stats.today.pomodoros}
+          hint={`${stats.weeklyPomodoros} this week`}
+        />
+        <StatCard label="Tasks finished this week" value={stats.weeklyTasksFinished} />
+        <StatCard
+          label="Streak"
+          value={`${stats.currentStreak} days`}
+          hint={`Longest: ${stats.longestStreak} days`}
+        />
+        <StatCard label="Average overrun" value={`${stats.averageOverrunMinutes}m`} />
+      </div>
+
+      <h2>This week</h2>
+      <div className="week-chart">
+        {stats.week.map((day) => (
+          <div key={day.date} className="week-chart-day" title={`${day.date}: ${day.focusMinutes} min`}>
+            <div
+              className="week-chart-bar"
+              style={{ height: `${(day.focusMinutes / maxWeekMinutes) * 100}%` }}
+            />
+            <span>{new Date(`${day.date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short' })}</span>
+          </div>
+        ))}
+      </div>
+
+      <h2>Focus by hour</h2>
+      <FocusHeatmap heatmap={stats.heatmap} />
+
+      <h2>Estimate accuracy</h2>
+      { estimates && <EstimateAccuracy estimates={estimates} /> }
     </div>
   );
 }
@@ -1,10 +1,16 @@
+import { useCurrentPhase } from '../hooks/useCurrentPhase.ts';
+import { Countdown } from '../components/Countdown.tsx';
+import { NextPhasePreview } from '../components/NextPhasePreview.tsx';
+
 export function PlanningScreen() {
+  const { phase, nextPhase } = useCurrentPhase();
+
   return (
-    <div>
+    <div className="phase-screen">
       <h1>Planning Screen</h1>
-      <p>Welcome to the Planning Screen!</p>
       <p>Here you can organize your tasks and set your goals.</p>
-      <p>Let's get started on planning your day!</p>
+      {phase && <Countdown phase={phase} />}
+      {nextPhase && <NextPhasePreview phase={nextPhase} />}
     </div>
   );
 }
@@ -1,12 +1,75 @@
-import { TaskList } from '@renderer/components/TaskList.tsx';
+import { useEffect, useState } from 'react';
+import { SchedulerEvents, TaskStates } from '@/shared/enums.ts';
+import type { ScheduleSlot } from '@/shared/types.ts';
+import { useTasks } from '../hooks/useTasks.ts';
+import { useCurrentPhase } from '../hooks/useCurrentPhase.ts';
+import { Countdown } from '../components/Countdown.tsx';
+
+const PLANNABLE_STATES = [TaskStates.PENDING, TaskStates.IN_PROGRESS];
+
+function formatTime(date: Date) {
+  return new Date(date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
 
 export function SessionPlanning() {
+  const { tasks } = useTasks();
+  const { phase } = useCurrentPhase();
+  const [slots, setSlots] = useState<ScheduleSlot[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const { bus, logger } = window.kazari;
+    const refreshSlots = () =>
+      bus
+        .get('schedule:slots:session')
+        .then(setSlots)
+        .catch((error) => logger.error('Failed to load session slots', error));
+    refreshSlots();
+    return bus.on(SchedulerEvents.PLAN_UPDATED, refreshSlots);
+  }, []);
+
+  const plannableTasks = tasks.filter(task => PLANNABLE_STATES.includes(task.state));
+
+  const toggleTask = (slot: ScheduleSlot, taskId: string) => {
+    const taskIds = slot.taskIds.includes(taskId)
+      ? slot.taskIds.filter(id => id !== taskId)
+      : [...slot.taskIds, taskId];
+    window.kazari.bus
+      .command(SchedulerEvents.ASSIGN_TASKS, slot.id, taskIds)
+      .then(() => setError(null))
+      .catch((error: Error) => setError(error.message));
+  };
+
   return (
-    <div>
+    <div className="session-planning">
       <h1>Session Planning</h1>
-      <p>Welcome to the session planning page!</p>
-      <p>Here you can plan your sessions effectively.</p>
-      <p>Make sure to allocate time for breaks and review.</p>
+      { phase && <Countdown phase={phase} /> }
+      { !slots.length && <p>No focus slots left in today's schedule.</p> }
+      {
+        slots.map(slot => (
+          <section key={slot.id} className="session-slot">
+            <h2>{ formatTime(slot.startTime) }–{ formatTime(slot.endTime) }</h2>
+            { !plannableTasks.length && <p>No pending tasks to work on.</p> }
+            <ul className="planning-tasks">
+              {
+                plannableTasks.map(task => (
+                  <li key={task.id} className="planning-task">
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={slot.taskIds.includes(task.id)}
+                        onChange={() => toggleTask(slot, task.id)}
+                      />
+                      { task.title }
+                    </label>
+                  </li>
+                ))
+              }
+            </ul>
+          </section>
+        ))
+      }
+      { error && <p className="form-error">{ error }</p> }
     </div>
-  )
+  );
 }
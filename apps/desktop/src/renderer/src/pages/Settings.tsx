@@ -0,0 +1,78 @@
+import { useConfig } from '../hooks/useConfig.ts';
+import { AvailabilityEditor } from '../components/AvailabilityEditor.tsx';
+import { DateOverrideEditor } from '../components/DateOverrideEditor.tsx';
+import { HolidayEditor } from '../components/HolidayEditor.tsx';
+import { PhaseEditor } from '../components/PhaseEditor.tsx';
+import { TimeZoneSelect } from '../components/TimeZoneSelect.tsx';
+
+export function Settings() {
+  const schedule = useConfig('schedule');
+  const phases = useConfig('phases');
+  const autopilot = useConfig('autopilot');
+  const completeParentTasks = useConfig('completeParentTasks');
+
+  return (
+    <div className="settings">
+      <h1>Settings</h1>
+
+      <section>
+        <h2>Availability</h2>
+        {
+          schedule.value && (
+            <TimeZoneSelect schedule={schedule.value} onChange={schedule.save} />
+          )
+        }
+        {
+          schedule.value && (
+            <AvailabilityEditor schedule={schedule.value} onChange={schedule.save} />
+          )
+        }
+        { schedule.error && <p className="form-error">{ schedule.error }</p> }
+        <label>
+          <input
+            type="checkbox"
+            checked={autopilot.value ?? false}
+            onChange={(event) => autopilot.save(event.target.checked)}
+          />
+          Start and stop the timer with my availability
+        </label>
+      </section>
+
+      <section>
+        <h2>Date overrides</h2>
+        {
+          schedule.value && (
+            <DateOverrideEditor schedule={schedule.value} onChange={schedule.save} />
+          )
+        }
+      </section>
+
+      <section>
+        <h2>Holidays</h2>
+        {
+          schedule.value && (
+            <HolidayEditor schedule={schedule.value} onChange={schedule.save} />
+          )
+        }
+      </section>
+
+      <section>
+        <h2>Tasks</h2>
+        <label>
+          <input
+            type="checkbox"
+            checked={completeParentTasks.value ?? false}
+            onChange={(event) => completeParentTasks.save(event.target.checked)}
+          />
+          Complete a task once all of its subtasks are completed
+        </label>
+      </section>
+
+      <section>
+        <h2>Phases</h2>
+        { phases.value && <PhaseEditor phases={phases.value} onChange={phases.save} /> }
+        { phases.error && <p className="form-error">{ phases.error }</p> }
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { TaskStates } from '@/shared/enums.ts';
+import type { Task } from '@/shared/types.ts';
+import { TaskList } from '../components/TaskList.tsx';
+import { TaskForm } from '../components/TaskForm.tsx';
+import { useTasks } from '../hooks/useTasks.ts';
+
+export function TaskManager() {
+  const { tasks, createTask, updateTask, setTaskState, deleteTask } = useTasks();
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [tagFilter, setTagFilter] = useState('');
+  const tags = [...new Set(tasks.flatMap(task => task.tags))].sort();
+  const visibleTasks = tasks.filter(task =>
+    task.state !== TaskStates.DELETED && (!tagFilter || task.tags.includes(tagFilter)),
+  );
+
+  return (
+    <div>
+      <h1>Tasks</h1>
+      {
+        editingTask ? (
+          <TaskForm
+            key={editingTask.id}
+            task={editingTask}
+            tasks={tasks}
+            onSubmit={(task) => {
+              updateTask(editingTask.id, task);
+              setEditingTask(null);
+            }}
+            onCancel={() => setEditingTask(null)}
+          />
+        ) : (
+          <TaskForm tasks={tasks} onSubmit={createTask} />
+        )
+      }
+      {
+        tags.length > 0 && (
+          <select className="task-tag-filter" value={tagFilter} onChange={(event) => setTagFilter(event.target.value)}>
+            <option value="">All tags</option>
+            { tags.map(tag => <option key={tag} value={tag}>#{ tag }</option>) }
+          </select>
+        )
+      }
+      <TaskList
+        tasks={visibleTasks}
+        onComplete={(taskId) => setTaskState(taskId, TaskStates.COMPLETED)}
+        onSelect={() => {}}
+        onStateChange={setTaskState}
+        onEdit={setEditingTask}
+        onDelete={deleteTask}
+      />
+    </div>
+  );
+}
@@ -1,31 +1,237 @@
-export function timeDifferenceInMs(startTime: string, endTime: string): number {
-  const startDateTime = timeToDate(startTime);
-  const endDateTime = timeToDate(endTime);
-  return endDateTime.getTime() - startDateTime.getTime();
+// "HH:mm" times only resolve to an instant on a given day in a given time zone,
+// the helpers below take both and default to today in the system zone
+
+export type TimeRange = {
+  startTime: Date;
+  endTime: Date;
+};
+
+type ZonedParts = {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function getSystemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
 }
 
-export function timeToDate(time: string): Date {
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .map(({ type, value }) => [type, Number(value)]),
+  );
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hours: parts.hour,
+    minutes: parts.minute,
+    seconds: parts.second,
+  };
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hours, minutes, seconds } = getZonedParts(
+    date,
+    timeZone,
+  );
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+function parseDateKey(dateKey: string): [number, number, number] {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return [year, month, day];
+}
+
+// Resolves a wall-clock time on a calendar day in a zone to an instant. Times skipped by a
+// DST gap move forward by the gap, repeated times resolve to their first occurrence.
+export function zonedDateTime(
+  dateKey: string,
+  time: string,
+  timeZone: string = getSystemTimeZone(),
+): Date {
+  const [year, month, day] = parseDateKey(dateKey);
   const [hours, minutes] = time.split(":").map(Number);
-  const date = new Date();
-  date.setHours(hours, minutes, 0, 0);
-  return date;
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  const offsetBefore = getTimeZoneOffset(
+    new Date(wallClock - 24 * 60 * 60_000),
+    timeZone,
+  );
+  const offsetAfter = getTimeZoneOffset(
+    new Date(wallClock + 24 * 60 * 60_000),
+    timeZone,
+  );
+  const candidates = [wallClock - offsetBefore, wallClock - offsetAfter].filter(
+    (instant) =>
+      instant + getTimeZoneOffset(new Date(instant), timeZone) === wallClock,
+  );
+  if (candidates.length) return new Date(Math.min(...candidates));
+  // The time doesn't exist on that day, keep the offset from before the transition
+  return new Date(wallClock - offsetBefore);
+}
+
+export function toDateKey(
+  date: Date,
+  timeZone: string = getSystemTimeZone(),
+): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return [
+    String(year).padStart(4, "0"),
+    String(month).padStart(2, "0"),
+    String(day).padStart(2, "0"),
+  ].join("-");
+}
+
+export function addDaysToKey(dateKey: string, days: number): string {
+  const [year, month, day] = parseDateKey(dateKey);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10);
 }
 
-export function timeAdd(time: string, ms: number): Date {
-  const date = timeToDate(time);
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// A block that ends at or before its start time runs past midnight
+export function isOvernight(startTime: string, endTime: string): boolean {
+  return timeToMinutes(endTime) <= timeToMinutes(startTime);
+}
+
+// Minutes covered by a block, counting an overnight block's end on the next day
+export function timeBlockMinutes(
+  startTime: string,
+  endTime: string,
+): [number, number] {
+  const start = timeToMinutes(startTime);
+  const end = timeToMinutes(endTime);
+  return [start, isOvernight(startTime, endTime) ? end + MINUTES_PER_DAY : end];
+}
+
+export function timeToDate(
+  time: string,
+  day: Date = new Date(),
+  timeZone: string = getSystemTimeZone(),
+): Date {
+  return zonedDateTime(toDateKey(day, timeZone), time, timeZone);
+}
+
+export function timeRange(
+  startTime: string,
+  endTime: string,
+  day: Date = new Date(),
+  timeZone: string = getSystemTimeZone(),
+): TimeRange {
+  const dateKey = toDateKey(day, timeZone);
+  const endKey = isOvernight(startTime, endTime)
+    ? addDaysToKey(dateKey, 1)
+    : dateKey;
+  return {
+    startTime: zonedDateTime(dateKey, startTime, timeZone),
+    endTime: zonedDateTime(endKey, endTime, timeZone),
+  };
+}
+
+// Real elapsed time between two wall-clock times, shorter or longer across DST changes
+export function timeDifferenceInMs(
+  startTime: string,
+  endTime: string,
+  day: Date = new Date(),
+  timeZone: string = getSystemTimeZone(),
+): number {
+  const range = timeRange(startTime, endTime, day, timeZone);
+  return range.endTime.getTime() - range.startTime.getTime();
+}
+
+export function timeAdd(
+  time: string,
+  ms: number,
+  day?: Date,
+  timeZone?: string,
+): Date {
+  const date = timeToDate(time, day, timeZone);
   date.setTime(date.getTime() + ms);
   return date;
 }
 
-export function todayAsName(): string {
-  const daysOfWeek = [
-    "Sunday",
-    "Monday",
-    "Tuesday",
-    "Wednesday",
-    "Thursday",
-    "Friday",
-    "Saturday",
-  ];
-  return daysOfWeek[new Date().getDay()];
+export function startOfDay(
+  date: Date = new Date(),
+  timeZone: string = getSystemTimeZone(),
+): Date {
+  return zonedDateTime(toDateKey(date, timeZone), "00:00", timeZone);
+}
+
+export function endOfDay(
+  date: Date = new Date(),
+  timeZone: string = getSystemTimeZone(),
+): Date {
+  const nextDay = addDaysToKey(toDateKey(date, timeZone), 1);
+  return zonedDateTime(nextDay, "00:00", timeZone);
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export const DAYS_OF_WEEK = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+] as const;
+export type DayOfWeek = (typeof DAYS_OF_WEEK)[number];
+
+export function todayAsName(timeZone?: string): DayOfWeek {
+  return dayAsName(new Date(), timeZone);
+}
+
+export function dayAsName(
+  date: Date,
+  timeZone: string = getSystemTimeZone(),
+): DayOfWeek {
+  const [year, month, day] = parseDateKey(toDateKey(date, timeZone));
+  return DAYS_OF_WEEK[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
 }
@@ -30,6 +30,7 @@ export enum WindowEvents {
 export enum Phases {
   FOCUS = "focus",
   BREAK = "break",
+  LONG_BREAK = "long_break",
   PLANNING = "planning",
 }
 
@@ -38,13 +39,64 @@ export enum TimerActions {
   PAUSE = "pause",
   RESUME = "resume",
   STOP = "stop",
+  SKIP = "skip",
+  EXTEND = "extend",
 }
 
 export enum TimerEvents {
   PHASE_START = "timer:phase:start:global",
   PHASE_END = "timer:phase:end:global",
   PHASE_SET = "timer:phase:activated:global",
+  PHASE_OVERRUN = "timer:phase:overrun:global",
   TICK = "timer:tick:global",
+  OVERRUN_TICK = "timer:overrun:tick:global",
+  PAUSED = "timer:paused:global",
+  RESUMED = "timer:resumed:global",
+  STOPPED = "timer:stopped:global",
+  ACTION = "timer:action:global",
+  CATCH_UP = "timer:catchup:global",
+  RESOLVE_CATCH_UP = "timer:catchup:resolve:global",
+  RESTORED = "timer:restored:global",
+  INTERRUPTED = "timer:interrupted:global",
+  RESOLVE_INTERRUPTION = "timer:interrupted:resolve:global",
+  EXTENDED = "timer:extended:global",
+}
+
+export enum SchedulerEvents {
+  PLAN_UPDATED = "scheduler:plan:updated:global",
+  BLOCK_START = "scheduler:block:start:global",
+  BLOCK_END = "scheduler:block:end:global",
+  IMPORT_HOLIDAYS = "scheduler:holidays:import:global",
+  ASSIGN_TASKS = "scheduler:slot:tasks:assign:global",
+  TASKS_ASSIGNED = "scheduler:slot:tasks:assigned:global",
+}
+
+export enum ConfigEvents {
+  SET = "config:set:global",
+  CHANGED = "config:changed:global",
+}
+
+export enum SettingsEvents {
+  OPEN = "settings:open:global",
+}
+
+export enum SystemEvents {
+  SUSPEND = "system:suspend:global",
+  RESUME = "system:resume:global",
+}
+
+export enum TaskEvents {
+  CREATE = "tasks:create:global",
+  UPDATE = "tasks:update:global",
+  DELETE = "tasks:delete:global",
+  SET_STATE = "tasks:state:set:global",
+  CHANGED = "tasks:changed:global",
+}
+
+export enum DailyPlanningEvents {
+  OPEN = "planning:daily:open:global",
+  SAVE = "planning:daily:save:global",
+  SAVED = "planning:daily:saved:global",
 }
 
 export enum TaskStates {
@@ -56,3 +108,26 @@ export enum TaskStates {
   ARCHIVED = "archived",
   DELETED = "deleted",
 }
+
+export enum SessionHistoryEvents {
+  RECORDED = "history:session:recorded:global",
+}
+
+export enum SessionStatus {
+  COMPLETED = "completed",
+  INTERRUPTED = "interrupted",
+}
+
+export enum IpcChannels {
+  BUS_GET = "bus:get",
+  BUS_COMMAND = "bus:command",
+  BUS_EVENT = "bus:event",
+}
+
+// How far an event travels through the Bus tree from the emitting bus
+export enum BusScopes {
+  LOCAL = "local", // Only the emitting bus
+  UP = "up", // The emitting bus and its parents up to the root
+  DOWN = "down", // The emitting bus and all of its children
+  GLOBAL = "global", // Every bus in the tree
+}
@@ -0,0 +1,96 @@
+import { addDays, toDateKey } from "@/shared/dateUtils.ts";
+import type { Holiday } from "@/data/models/Schedule.ts";
+
+type IcsProperty = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+// Long lines are folded onto continuation lines that start with whitespace
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim().length > 0);
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  const separator = line.indexOf(":");
+  if (separator === -1) return null;
+  const [name, ...params] = line.slice(0, separator).split(";");
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(
+      params.map((param) => {
+        const [key, value = ""] = param.split("=");
+        return [key.toUpperCase(), value];
+      }),
+    ),
+    value: line.slice(separator + 1),
+  };
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, " ")
+    .replace(/\\([,;\\])/g, "$1")
+    .trim();
+}
+
+// Only plain dates, a date with a time belongs to a timed event
+function parseIcsDate({ params, value }: IcsProperty): Date | null {
+  if (params.VALUE && params.VALUE !== "DATE") return null;
+  const match = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+  if (!match) return null;
+  const [, year, month, day] = match.map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Extracts every all-day date from the VEVENTs of an iCalendar file, DTEND is exclusive
+export function parseIcsHolidays(text: string): Holiday[] {
+  const holidays: Holiday[] = [];
+  let event: Record<string, IcsProperty> | null = null;
+  unfoldLines(text).forEach((line) => {
+    const property = parseProperty(line);
+    if (!property) return;
+    if (property.name === "BEGIN" && property.value === "VEVENT") {
+      event = {};
+      return;
+    }
+    if (property.name === "END" && property.value === "VEVENT") {
+      if (event) holidays.push(...toHolidays(event));
+      event = null;
+      return;
+    }
+    if (event) event[property.name] = property;
+  });
+  return holidays;
+}
+
+function toHolidays(event: Record<string, IcsProperty>): Holiday[] {
+  const start = event.DTSTART && parseIcsDate(event.DTSTART);
+  if (!start) return [];
+  const name = event.SUMMARY ? unescapeText(event.SUMMARY.value) : "Holiday";
+  const end = (event.DTEND && parseIcsDate(event.DTEND)) || start;
+  const holidays: Holiday[] = [];
+  let day = start;
+  do {
+    holidays.push({ date: toDateKey(day), name: name.slice(0, 100) });
+    day = addDays(day, 1);
+  } while (day < end);
+  return holidays;
+}
+
+// Adds the imported holidays, keeping the existing entry when a date is already listed
+export function mergeHolidays(
+  existing: Holiday[],
+  imported: Holiday[],
+): Holiday[] {
+  const merged = new Map(existing.map((holiday) => [holiday.date, holiday]));
+  imported.forEach((holiday) => {
+    if (!merged.has(holiday.date)) merged.set(holiday.date, holiday);
+  });
+  return [...merged.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,82 @@
+import {
+  ConfigEvents,
+  DailyPlanningEvents,
+  SchedulerEvents,
+  SettingsEvents,
+  TaskEvents,
+  TimerEvents,
+} from "@/shared/enums.ts";
+import type { BusEventKey, BusGetterKey } from "@/main/core/BusEvents.ts";
+import type {
+  IpcCommandKey,
+  IpcEventKey,
+  IpcGetterKey,
+} from "@/shared/types.ts";
+
+export const IPC_GETTERS = [
+  "config:get",
+  "timer:phase:current",
+  "timer:phase:next",
+  "timer:cycle:count",
+  "timer:catchup:pending",
+  "timer:interruption:pending",
+  "tasks:all",
+  "tasks:active",
+  "history:sessions",
+  "history:focus:today",
+  "stats:summary",
+  "stats:estimates",
+  "schedule:plan:today",
+  "schedule:slots:available",
+  "schedule:slot:current",
+  "schedule:slot:focus:next",
+  "schedule:slots:session",
+  "planning:daily:today",
+  "planning:daily:candidates",
+] as const satisfies readonly BusGetterKey[];
+
+export const IPC_COMMANDS = [
+  TimerEvents.ACTION,
+  TimerEvents.RESOLVE_CATCH_UP,
+  TimerEvents.RESOLVE_INTERRUPTION,
+  TaskEvents.CREATE,
+  TaskEvents.UPDATE,
+  TaskEvents.SET_STATE,
+  TaskEvents.DELETE,
+  ConfigEvents.SET,
+  SettingsEvents.OPEN,
+  SchedulerEvents.IMPORT_HOLIDAYS,
+  SchedulerEvents.ASSIGN_TASKS,
+  DailyPlanningEvents.OPEN,
+  DailyPlanningEvents.SAVE,
+] as const satisfies readonly BusEventKey[];
+
+export const IPC_EVENTS = [
+  TimerEvents.PHASE_SET,
+  TimerEvents.PHASE_START,
+  TimerEvents.PHASE_END,
+  TimerEvents.PHASE_OVERRUN,
+  TimerEvents.TICK,
+  TimerEvents.OVERRUN_TICK,
+  TimerEvents.PAUSED,
+  TimerEvents.RESUMED,
+  TimerEvents.STOPPED,
+  TimerEvents.RESTORED,
+  TimerEvents.EXTENDED,
+  TimerEvents.CATCH_UP,
+  TimerEvents.INTERRUPTED,
+  TaskEvents.CHANGED,
+  SchedulerEvents.PLAN_UPDATED,
+  SchedulerEvents.TASKS_ASSIGNED,
+  ConfigEvents.CHANGED,
+  DailyPlanningEvents.SAVED,
+] as const satisfies readonly BusEventKey[];
+
+export const isIpcGetter = (key: string): key is IpcGetterKey =>
+  (IPC_GETTERS as readonly string[]).includes(key);
+
+export const isIpcCommand = (key: string): key is IpcCommandKey =>
+  (IPC_COMMANDS as readonly string[]).includes(key);
+
+export const isIpcEvent = (key: string): key is IpcEventKey =>
+  (IPC_EVENTS as readonly string[]).includes(key);
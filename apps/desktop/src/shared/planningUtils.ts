@@ -0,0 +1,66 @@
+import { Phases } from "@/shared/enums.ts";
+import type { PlannedTask } from "@/data/models/DailyPlanning.ts";
+import type { ScheduleSlot } from "@/data/models/Schedule.ts";
+import type { Task } from "@/data/models/Task.ts";
+
+// A day can't hold more pomodoros than this for a single task
+export const MAX_PLANNED_POMODOROS = 24;
+const DEFAULT_PLANNED_POMODOROS = 1;
+
+export type PlannedTaskFit = {
+  taskId: string;
+  slots: ScheduleSlot[];
+  missingPomodoros: number;
+};
+
+export type PlanningFit = {
+  estimatedPomodoros: number;
+  availablePomodoros: number;
+  overCommittedBy: number;
+  tasks: PlannedTaskFit[];
+};
+
+export function clampPlannedPomodoros(pomodoros: number): number {
+  return Math.min(
+    MAX_PLANNED_POMODOROS,
+    Math.max(DEFAULT_PLANNED_POMODOROS, pomodoros),
+  );
+}
+
+// Starts from what's left of the task's own estimate, which may span several days
+export function getDefaultPlannedPomodoros(
+  task: Pick<Task, "estimatedPomodoros" | "completedPomodoros">,
+): number {
+  if (!task.estimatedPomodoros) return DEFAULT_PLANNED_POMODOROS;
+  return clampPlannedPomodoros(
+    task.estimatedPomodoros - task.completedPomodoros,
+  );
+}
+
+// Fills today's focus slots with the planned tasks in order, one pomodoro per slot
+export function getPlanningFit(
+  tasks: PlannedTask[],
+  slots: ScheduleSlot[],
+): PlanningFit {
+  const focusSlots = slots.filter((slot) => slot.type === Phases.FOCUS);
+  let nextSlot = 0;
+  const taskFits = tasks.map(({ taskId, estimatedPomodoros }) => {
+    const taskSlots = focusSlots.slice(nextSlot, nextSlot + estimatedPomodoros);
+    nextSlot += taskSlots.length;
+    return {
+      taskId,
+      slots: taskSlots,
+      missingPomodoros: estimatedPomodoros - taskSlots.length,
+    };
+  });
+  const estimatedPomodoros = tasks.reduce(
+    (total, task) => total + task.estimatedPomodoros,
+    0,
+  );
+  return {
+    estimatedPomodoros,
+    availablePomodoros: focusSlots.length,
+    overCommittedBy: Math.max(0, estimatedPomodoros - focusSlots.length),
+    tasks: taskFits,
+  };
+}
@@ -0,0 +1,66 @@
+import {
+  DAYS_OF_WEEK,
+  isOvernight,
+  timeBlockMinutes,
+  timeToMinutes,
+} from "@/shared/dateUtils.ts";
+import type { DayAvailability, TimeBlock } from "@/data/models/Schedule.ts";
+
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function isValidTime(time: string): boolean {
+  return TIME_PATTERN.test(time);
+}
+
+// Describes every problem with a day's time blocks, empty when they're valid.
+// Blocks ending before they start run overnight into the next day.
+export function getTimeBlockErrors(timeBlocks: TimeBlock[]): string[] {
+  const errors: string[] = [];
+  timeBlocks.forEach((block, index) => {
+    if (!isValidTime(block.startTime) || !isValidTime(block.endTime)) {
+      errors.push(`Block ${index + 1} must use HH:mm times`);
+    } else if (block.endTime === block.startTime) {
+      errors.push(`Block ${index + 1} must end at a different time`);
+    }
+  });
+  if (errors.length) return errors;
+
+  const sortedBlocks = timeBlocks
+    .map((block, index) => {
+      const [start, end] = timeBlockMinutes(block.startTime, block.endTime);
+      return { start, end, index };
+    })
+    .sort((a, b) => a.start - b.start);
+  sortedBlocks.slice(1).forEach((block, index) => {
+    const previous = sortedBlocks[index];
+    if (block.start < previous.end) {
+      errors.push(
+        `Block ${previous.index + 1} overlaps block ${block.index + 1}`,
+      );
+    }
+  });
+  return errors;
+}
+
+// Overnight blocks must be over before the next day's first block starts
+export function getAvailabilityErrors(
+  availability: DayAvailability[],
+): string[] {
+  const errors: string[] = [];
+  availability.forEach(({ day, timeBlocks }) => {
+    const nextDay = DAYS_OF_WEEK[(DAYS_OF_WEEK.indexOf(day) + 1) % 7];
+    const nextBlocks =
+      availability.find((entry) => entry.day === nextDay)?.timeBlocks ?? [];
+    timeBlocks.forEach((block, index) => {
+      if (!isOvernight(block.startTime, block.endTime)) return;
+      nextBlocks.forEach((nextBlock, nextIndex) => {
+        if (timeToMinutes(nextBlock.startTime) < timeToMinutes(block.endTime)) {
+          errors.push(
+            `${day} block ${index + 1} runs into ${nextDay} block ${nextIndex + 1}`,
+          );
+        }
+      });
+    });
+  });
+  return errors;
+}
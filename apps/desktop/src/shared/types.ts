@@ -0,0 +1,131 @@
+import type { Task, TaskInput } from "@/data/models/Task.ts";
+import type {
+  DayPlan,
+  ScheduleConfig,
+  ScheduleSlot,
+} from "@/data/models/Schedule.ts";
+import type { PhaseType, PhaseSequenceType } from "@/data/models/Phase.ts";
+import type {
+  DailyPlanning,
+  PlannedTask,
+} from "@/data/models/DailyPlanning.ts";
+import type {
+  BusEvents,
+  BusGetters,
+  ConfigSetArgs,
+} from "@/main/core/BusEvents.ts";
+import type { Phase } from "@/main/modules/Phase.ts";
+import type { Phases } from "@/shared/enums.ts";
+import type { IPC_COMMANDS, IPC_EVENTS, IPC_GETTERS } from "@/shared/ipc.ts";
+
+export type {
+  ConfigSetArgs,
+  Task,
+  TaskInput,
+  DayPlan,
+  ScheduleConfig,
+  ScheduleSlot,
+  PhaseType,
+  PhaseSequenceType,
+  DailyPlanning,
+  PlannedTask,
+};
+
+// Config values the renderer can read and write
+export type EditableConfig = {
+  phases: PhaseType[];
+  phaseSequence: PhaseSequenceType;
+  schedule: ScheduleConfig;
+  autopilot: boolean;
+  completeParentTasks: boolean;
+};
+
+export type DailyFocus = {
+  date: string; // YYYY-MM-DD
+  focusMinutes: number;
+  pomodoros: number;
+};
+
+export type StatsSummary = {
+  today: DailyFocus;
+  week: DailyFocus[];
+  weeklyFocusMinutes: number;
+  weeklyPomodoros: number;
+  weeklyTasksFinished: number;
+  currentStreak: number;
+  longestStreak: number;
+  averageOverrunMinutes: number;
+  // Focus minutes per hour of day, one row per day of the week (Sunday first)
+  heatmap: number[][];
+};
+
+export type TaskEstimate = {
+  taskId: string;
+  title: string;
+  estimatedPomodoros: number;
+  actualPomodoros: number;
+  actualFocusMinutes: number;
+  accuracy: number; // actual / estimated, above 1 when underestimated
+};
+
+export type EstimateAccuracy = {
+  tasks: TaskEstimate[];
+  averageAccuracy: number | null;
+  onTarget: number;
+  underestimated: number;
+  overestimated: number;
+};
+
+// Plain copy of a Phase that can cross the IPC boundary
+export type PhaseSnapshot = {
+  type: Phases;
+  allocatedTime: number;
+  startTime: number;
+  endTime: number;
+  elapsedTime: number;
+  remainingTime: number;
+  overrunTime: number;
+  isActive: boolean;
+  isPaused: boolean;
+  isOverrunning: boolean;
+};
+
+// Phases cross the IPC boundary as snapshots, as the IpcBridge serializes them
+type Serialized<T> = T extends Phase
+  ? PhaseSnapshot
+  : T extends unknown[]
+    ? T
+    : T extends object
+      ? { [K in keyof T]: T[K] extends Phase ? PhaseSnapshot : T[K] }
+      : T;
+
+export type IpcGetterKey = (typeof IPC_GETTERS)[number];
+export type IpcCommandKey = (typeof IPC_COMMANDS)[number];
+export type IpcEventKey = (typeof IPC_EVENTS)[number];
+
+// Taken from the Bus registries so both sides of the bridge stay in sync
+export type IpcGetters = {
+  [K in IpcGetterKey]: {
+    args: BusGetters[K]["args"];
+    result: Serialized<BusGetters[K]["result"]>;
+  };
+};
+export type IpcCommands = Pick<BusEvents, IpcCommandKey>;
+export type IpcEvents = {
+  [K in IpcEventKey]: Serialized<BusEvents[K][0]>;
+};
+
+export type BusBridge = {
+  get: <K extends IpcGetterKey>(
+    key: K,
+    ...args: IpcGetters[K]["args"]
+  ) => Promise<IpcGetters[K]["result"]>;
+  command: <K extends IpcCommandKey>(
+    command: K,
+    ...args: IpcCommands[K]
+  ) => Promise<void>;
+  on: <K extends IpcEventKey>(
+    event: K,
+    listener: (payload: IpcEvents[K]) => void,
+  ) => () => void;
+};
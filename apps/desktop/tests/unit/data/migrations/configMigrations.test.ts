@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+  CONFIG_VERSION,
+  configMigrations,
+  migrateConfigs,
+} from "@/data/migrations/configMigrations.ts";
+import { getSystemTimeZone } from "@/shared/dateUtils.ts";
+
+describe("configMigrations", () => {
+  it("should declare migrations in increasing version order", () => {
+    const versions = configMigrations.map((migration) => migration.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(CONFIG_VERSION).toBe(versions.at(-1));
+  });
+
+  it("should zero-pad schedule times and drop empty days", () => {
+    const migrated = migrateConfigs(
+      {
+        phases: [],
+        schedule: {
+          availability: [
+            {
+              day: "Monday",
+              timeBlocks: [{ startTime: "9:00", endTime: "12:30" }],
+            },
+            { day: "Tuesday", timeBlocks: [] },
+          ],
+        },
+      },
+      0,
+    );
+    expect(migrated).toEqual({
+      phases: [],
+      schedule: {
+        availability: [
+          {
+            day: "Monday",
+            timeBlocks: [{ startTime: "09:00", endTime: "12:30" }],
+          },
+        ],
+        timeZone: getSystemTimeZone(),
+      },
+    });
+  });
+
+  it("should keep a schedule's time zone when pinning it", () => {
+    const migrated = migrateConfigs(
+      { schedule: { availability: [], timeZone: "Asia/Tokyo" } },
+      1,
+    );
+    expect(migrated.schedule).toMatchObject({ timeZone: "Asia/Tokyo" });
+  });
+
+  it("should skip migrations that were already applied", () => {
+    const configs = { schedule: { availability: [{ day: "Tuesday" }] } };
+    expect(migrateConfigs(configs, CONFIG_VERSION)).toBe(configs);
+  });
+});
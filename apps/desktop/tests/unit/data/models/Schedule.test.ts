@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { ScheduleConfigSchema } from "@/data/models/Schedule.ts";
+
+const schedule = (timeBlocks: { startTime: string; endTime: string }[]) => ({
+  availability: [{ day: "Monday", timeBlocks }],
+});
+
+describe("ScheduleConfigSchema", () => {
+  it("should accept a valid schedule", () => {
+    const result = ScheduleConfigSchema.safeParse(
+      schedule([
+        { startTime: "09:00", endTime: "13:00" },
+        { startTime: "13:30", endTime: "17:00" },
+      ]),
+    );
+    expect(result.success).toBe(true);
+  });
+
+  it("should default to no availability", () => {
+    expect(ScheduleConfigSchema.parse({})).toEqual({
+      availability: [],
+      overrides: [],
+      holidays: [],
+    });
+  });
+
+  it("should reject times that are not HH:mm", () => {
+    const result = ScheduleConfigSchema.safeParse(
+      schedule([{ startTime: "9am", endTime: "13:00" }]),
+    );
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject blocks that start and end at the same time", () => {
+    const result = ScheduleConfigSchema.safeParse(
+      schedule([{ startTime: "13:00", endTime: "13:00" }]),
+    );
+    expect(result.success).toBe(false);
+  });
+
+  it("should accept blocks that run overnight", () => {
+    const result = ScheduleConfigSchema.safeParse(
+      schedule([{ startTime: "22:00", endTime: "02:00" }]),
+    );
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject unknown time zones", () => {
+    expect(
+      ScheduleConfigSchema.safeParse({ timeZone: "Europe/Berlin" }).success,
+    ).toBe(true);
+    expect(
+      ScheduleConfigSchema.safeParse({ timeZone: "Mars/Olympus_Mons" }).success,
+    ).toBe(false);
+  });
+
+  it("should reject overlapping blocks", () => {
+    const result = ScheduleConfigSchema.safeParse(
+      schedule([
+        { startTime: "09:00", endTime: "13:00" },
+        { startTime: "12:00", endTime: "17:00" },
+      ]),
+    );
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject unknown and repeated days", () => {
+    expect(
+      ScheduleConfigSchema.safeParse({
+        availability: [{ day: "Someday", timeBlocks: [] }],
+      }).success,
+    ).toBe(false);
+    expect(
+      ScheduleConfigSchema.safeParse({
+        availability: [
+          { day: "Monday", timeBlocks: [] },
+          { day: "Monday", timeBlocks: [] },
+        ],
+      }).success,
+    ).toBe(false);
+  });
+
+  it("should accept date overrides and holidays", () => {
+    const result = ScheduleConfigSchema.safeParse({
+      availability: [],
+      overrides: [
+        {
+          date: "2025-12-24",
+          label: "Half day",
+          timeBlocks: [{ startTime: "09:00", endTime: "12:00" }],
+        },
+      ],
+      holidays: [{ date: "2025-12-25", name: "Christmas Day" }],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject malformed and repeated override dates", () => {
+    expect(
+      ScheduleConfigSchema.safeParse({
+        overrides: [{ date: "24/12/2025", timeBlocks: [] }],
+      }).success,
+    ).toBe(false);
+    expect(
+      ScheduleConfigSchema.safeParse({
+        overrides: [
+          { date: "2025-12-24", timeBlocks: [] },
+          { date: "2025-12-24", timeBlocks: [] },
+        ],
+      }).success,
+    ).toBe(false);
+  });
+
+  it("should validate the time blocks of an override", () => {
+    const result = ScheduleConfigSchema.safeParse({
+      overrides: [
+        {
+          date: "2025-12-24",
+          timeBlocks: [
+            { startTime: "09:00", endTime: "12:00" },
+            { startTime: "11:00", endTime: "13:00" },
+          ],
+        },
+      ],
+    });
+    expect(result.success).toBe(false);
+  });
+});
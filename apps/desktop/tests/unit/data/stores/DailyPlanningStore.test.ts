@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { getMockElectronStore } from "./mockElectronStore.ts";
+import { DailyPlanningStore } from "@/data/stores/DailyPlanningStore.ts";
+
+describe("DailyPlanningStore", () => {
+  let store: DailyPlanningStore;
+  const { storeData } = getMockElectronStore();
+
+  beforeEach(() => {
+    store = DailyPlanningStore.getInstance();
+    storeData.clear();
+  });
+
+  it("should return null when nothing was planned", () => {
+    expect(store.getDailyPlanning()).toBeNull();
+  });
+
+  it("should save and retrieve the daily planning", () => {
+    const planning = {
+      date: "2025-06-02",
+      completedAt: 1_000,
+      tasks: [{ taskId: "1", estimatedPomodoros: 2 }],
+    };
+    store.saveDailyPlanning(planning);
+    expect(store.getDailyPlanning()).toEqual(planning);
+  });
+
+  it("should reject tasks planned twice", () => {
+    expect(() =>
+      store.saveDailyPlanning({
+        date: "2025-06-02",
+        completedAt: 1_000,
+        tasks: [
+          { taskId: "1", estimatedPomodoros: 2 },
+          { taskId: "1", estimatedPomodoros: 1 },
+        ],
+      }),
+    ).toThrow("Invalid daily planning");
+  });
+
+  it("should ignore corrupted data", () => {
+    storeData.set("dailyPlanning", { date: 5 });
+    expect(store.getDailyPlanning()).toBeNull();
+  });
+});
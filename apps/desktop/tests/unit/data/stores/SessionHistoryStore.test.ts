@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { getMockElectronStore } from "./mockElectronStore.ts";
+import { SessionHistoryStore } from "@/data/stores/SessionHistoryStore.ts";
+import { type SessionRecord } from "@/data/models/SessionRecord.ts";
+import { Phases, SessionStatus } from "@/shared/enums.ts";
+
+const mockRecord = (record: Partial<SessionRecord> = {}): SessionRecord => ({
+  id: "1",
+  type: Phases.FOCUS,
+  plannedDuration: 25 * 60_000,
+  actualDuration: 25 * 60_000,
+  overrunTime: 0,
+  startTime: 1_000,
+  endTime: 1_000 + 25 * 60_000,
+  status: SessionStatus.COMPLETED,
+  ...record,
+});
+
+describe("SessionHistoryStore", () => {
+  let store: SessionHistoryStore;
+  const { storeSet, storeData } = getMockElectronStore();
+
+  beforeEach(() => {
+    store = SessionHistoryStore.getInstance();
+    storeData.clear();
+  });
+
+  it("should be a singleton", () => {
+    const instance1 = SessionHistoryStore.getInstance();
+    const instance2 = SessionHistoryStore.getInstance();
+    expect(instance1).toBe(instance2);
+  });
+
+  it("should add a record and retrieve it", () => {
+    const record = mockRecord();
+    store.addRecord(record);
+    expect(storeSet).toHaveBeenCalledWith("sessions", [record]);
+    expect(store.getRecords()).toEqual([record]);
+  });
+
+  it("should throw an error for an invalid record", () => {
+    expect(() => store.addRecord(mockRecord({ actualDuration: -1 }))).toThrow();
+  });
+
+  it("should retrieve records between two dates", () => {
+    const record1 = mockRecord({ id: "1", startTime: 1_000, endTime: 2_000 });
+    const record2 = mockRecord({ id: "2", startTime: 3_000, endTime: 4_000 });
+    const record3 = mockRecord({ id: "3", startTime: 5_000, endTime: 6_000 });
+    store.addRecord(record1);
+    store.addRecord(record2);
+    store.addRecord(record3);
+    expect(store.getRecordsBetween(2_500, 5_000)).toEqual([record2]);
+  });
+});
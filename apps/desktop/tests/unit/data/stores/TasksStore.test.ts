@@ -1,10 +1,11 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { getMockElectronStore } from "./mockElectronStore.ts";
 import { TasksStore } from "@/data/stores/TasksStore.ts";
 import { type Task } from "@/data/models/Task.ts";
 import { TaskStates } from "@/shared/enums.ts";
 
 const today = new Date();
+const now = new Date("2025-06-02T08:00:00Z");
 const mockTask = (task: Partial<Task> = {}) => ({
   id: "1",
   title: "Test Task",
@@ -12,6 +13,12 @@ const mockTask = (task: Partial<Task> = {}) => ({
   dueDate: new Date(today.getFullYear(), today.getMonth() + 1, today.getDate()),
   state: TaskStates.PENDING,
   priority: "medium",
+  createdAt: now,
+  updatedAt: now,
+  completedPomodoros: 0,
+  actualFocusTime: 0,
+  tags: [],
+  subtasks: [],
   ...task,
 });
 
@@ -19,10 +26,16 @@ describe("TasksStore", () => {
   let store: TasksStore;
   const { storeGet, storeSet, storeData } = getMockElectronStore();
   beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
     store = TasksStore.getInstance();
     storeData.clear();
   });
 
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
   it("should be a singleton", () => {
     const instance1 = TasksStore.getInstance();
     const instance2 = TasksStore.getInstance();
@@ -67,7 +80,7 @@ describe("TasksStore", () => {
     store.addTasks(task1);
     store.addTasks(task2);
     const completedTasks = store.getCompletedTasks();
-    expect(completedTasks).toEqual([task2]);
+    expect(completedTasks).toEqual([{ ...task2, completedAt: now }]);
   });
 
   it("should retrieve pending tasks", () => {
@@ -86,7 +99,9 @@ describe("TasksStore", () => {
 
     store.setTaskAsCompleted(task1);
     const completedTasks = store.getCompletedTasks();
-    expect(completedTasks).toEqual([{ ...task1, state: TaskStates.COMPLETED }]);
+    expect(completedTasks).toEqual([
+      { ...task1, state: TaskStates.COMPLETED, completedAt: now },
+    ]);
   });
 
   it("should set a task as pending", () => {
@@ -110,4 +125,98 @@ describe("TasksStore", () => {
       { ...task2, state: TaskStates.IN_PROGRESS },
     ]);
   });
+
+  it("should set a task to any state", () => {
+    const task = mockTask();
+    store.addTasks(task);
+
+    store.setTaskState(task, TaskStates.ON_HOLD);
+    expect(store.getTaskById(task.id)?.state).toBe(TaskStates.ON_HOLD);
+  });
+
+  it("should delete a task", () => {
+    const task1 = mockTask();
+    const task2 = mockTask({ id: "2" });
+    store.addTasks(task1, task2);
+
+    store.deleteTask(task1.id);
+    expect(store.getTasks()).toEqual([task2]);
+  });
+
+  it("should restore due dates saved as strings", () => {
+    const task = mockTask();
+    storeData.set("tasks", [{ ...task, dueDate: task.dueDate.toISOString() }]);
+    expect(store.getTasks()).toEqual([task]);
+  });
+
+  it("should accumulate focus time and completed pomodoros", () => {
+    const task = mockTask();
+    store.addTasks(task);
+    store.addFocusTime(task, 25 * 60_000, true);
+    store.addFocusTime(task, 10 * 60_000, false);
+    expect(store.getTaskById(task.id)).toMatchObject({
+      completedPomodoros: 1,
+      actualFocusTime: 35 * 60_000,
+    });
+  });
+
+  it("should keep the creation time and bump the update time on save", () => {
+    const task = mockTask({ createdAt: undefined, updatedAt: undefined });
+    store.addTasks(task);
+    expect(store.getTaskById(task.id)).toMatchObject({
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const later = new Date("2025-06-02T09:00:00Z");
+    vi.setSystemTime(later);
+    store.saveTask({ ...task, title: "Renamed", createdAt: later });
+    expect(store.getTaskById(task.id)).toMatchObject({
+      title: "Renamed",
+      createdAt: now,
+      updatedAt: later,
+    });
+  });
+
+  it("should stamp the completion time until the task is reopened", () => {
+    const task = mockTask();
+    store.addTasks(task);
+    store.setTaskAsCompleted(task);
+    expect(store.getTaskById(task.id)?.completedAt).toEqual(now);
+
+    vi.setSystemTime(new Date("2025-06-02T09:00:00Z"));
+    store.saveTask({ ...store.getTaskById(task.id)!, title: "Renamed" });
+    expect(store.getTaskById(task.id)?.completedAt).toEqual(now);
+
+    store.setTaskAsPending(task);
+    expect(store.getTaskById(task.id)?.completedAt).toBeUndefined();
+  });
+
+  it("should normalize tags and find tasks by tag", () => {
+    const task1 = mockTask({ tags: [" Work ", "work", "Urgent"] });
+    const task2 = mockTask({ id: "2", tags: ["home"] });
+    store.addTasks(task1, task2);
+
+    expect(store.getTaskById(task1.id)?.tags).toEqual(["work", "urgent"]);
+    expect(store.getTasksByTag("WORK").map((task) => task.id)).toEqual(["1"]);
+    expect(store.getTags()).toEqual(["home", "urgent", "work"]);
+  });
+
+  it("should resolve subtasks and their parents", () => {
+    const parent = mockTask({ subtasks: ["2", "missing"] });
+    const subtask = mockTask({ id: "2" });
+    store.addTasks(parent, subtask);
+
+    expect(store.getSubtasks(parent)).toEqual([subtask]);
+    expect(store.getParentTasks(subtask.id)).toEqual([parent]);
+  });
+
+  it("should remove deleted tasks from their parents", () => {
+    const parent = mockTask({ subtasks: ["2"] });
+    const subtask = mockTask({ id: "2" });
+    store.addTasks(parent, subtask);
+
+    store.deleteTask(subtask.id);
+    expect(store.getTasks()).toEqual([{ ...parent, subtasks: [] }]);
+  });
 });
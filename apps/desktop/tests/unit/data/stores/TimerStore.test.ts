@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { getMockElectronStore } from "./mockElectronStore.ts";
+import { TimerStore } from "@/data/stores/TimerStore.ts";
+import { type TimerState } from "@/data/models/TimerState.ts";
+
+const mockState = (state: Partial<TimerState> = {}): TimerState => ({
+  phaseIndex: 1,
+  startTime: 1_000,
+  pausedAt: 0,
+  pausedDuration: 0,
+  extendedTime: 0,
+  completedCycles: 2,
+  lastLongBreakCycles: 0,
+  savedAt: 2_000,
+  ...state,
+});
+
+describe("TimerStore", () => {
+  let store: TimerStore;
+  const { storeSet, storeData } = getMockElectronStore();
+
+  beforeEach(() => {
+    store = TimerStore.getInstance();
+    storeData.clear();
+  });
+
+  it("should be a singleton", () => {
+    const instance1 = TimerStore.getInstance();
+    const instance2 = TimerStore.getInstance();
+    expect(instance1).toBe(instance2);
+  });
+
+  it("should save and retrieve the timer state", () => {
+    const state = mockState();
+    store.saveState(state);
+    expect(storeSet).toHaveBeenCalledWith("timer", state);
+    expect(store.getState()).toEqual(state);
+  });
+
+  it("should return null if no state has been saved", () => {
+    expect(store.getState()).toBeNull();
+  });
+
+  it("should clear the timer state", () => {
+    store.saveState(mockState());
+    store.clearState();
+    expect(store.getState()).toBeNull();
+  });
+
+  it("should throw an error for an invalid state", () => {
+    expect(() => store.saveState(mockState({ phaseIndex: -1 }))).toThrowError();
+  });
+});
@@ -1,6 +1,23 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { getMockElectronStore } from "./mockElectronStore.ts";
 import { ScheduleStore } from "@/data/stores/ScheduleStore.ts";
+import { type DayPlan } from "@/data/models/Schedule.ts";
+import { Phases } from "@/shared/enums.ts";
+
+const mockDayPlan = (): DayPlan => ({
+  date: "2025-06-02",
+  generatedAt: 1_000,
+  slots: [
+    {
+      id: "1",
+      type: Phases.FOCUS,
+      allocatedTime: 25 * 60_000,
+      startTime: new Date(2025, 5, 2, 9, 0),
+      endTime: new Date(2025, 5, 2, 9, 25),
+      taskIds: [],
+    },
+  ],
+});
 
 describe("ScheduleStore", () => {
   let store: ScheduleStore;
@@ -16,4 +33,34 @@ describe("ScheduleStore", () => {
     const instance2 = ScheduleStore.getInstance();
     expect(instance1).toBe(instance2);
   });
+
+  it("should return null when no day plan is stored", () => {
+    expect(store.getDayPlan()).toBeNull();
+  });
+
+  it("should save and retrieve a day plan", () => {
+    const dayPlan = mockDayPlan();
+    store.saveDayPlan(dayPlan);
+    expect(storeSet).toHaveBeenCalledWith("dayPlan", dayPlan);
+    expect(store.getDayPlan()).toEqual(dayPlan);
+    expect(storeGet).toHaveBeenCalledWith("dayPlan");
+  });
+
+  it("should restore slot times saved as strings", () => {
+    const dayPlan = mockDayPlan();
+    storeData.set("dayPlan", JSON.parse(JSON.stringify(dayPlan)));
+    expect(store.getDayPlan()).toEqual(dayPlan);
+  });
+
+  it("should reject an invalid day plan", () => {
+    expect(() =>
+      store.saveDayPlan({ ...mockDayPlan(), generatedAt: -1 }),
+    ).toThrowError();
+  });
+
+  it("should clear the day plan", () => {
+    store.saveDayPlan(mockDayPlan());
+    store.clearDayPlan();
+    expect(store.getDayPlan()).toBeNull();
+  });
 });
@@ -1,5 +1,29 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { Bus } from "@/main/core/Bus.ts";
+import { type PhasePayload } from "@/main/core/BusEvents.ts";
+import { BusScopes, TimerEvents } from "@/shared/enums.ts";
+
+declare module "@/main/core/BusEvents.ts" {
+  interface BusEvents {
+    "test:event": [payload: { data: string }];
+    "another:event": [];
+    "yet:another:event": [];
+    "nonexistent:event": [];
+    "test:event:all": [payload: { data: string }];
+    "test:event:not:all": [payload: { data: string }];
+    "test:event:scoped": [];
+    "test:event:private:local": [];
+    "test:event:bubbling:up": [];
+    "wildcard:one": [value: number];
+    "wildcard:one:two": [];
+    "wildcard:two:three:four": [];
+  }
+  interface BusGetters {
+    "get:response": { args: []; result: string };
+    "get:response:not": { args: []; result: string };
+    "get:response:async": { args: []; result: Promise<string> };
+  }
+}
 
 describe("Bus", () => {
   let bus: Bus;
@@ -26,6 +50,16 @@ describe("Bus", () => {
     expect(callback).toHaveBeenCalledWith({ data: "test" });
   });
 
+  it("should only accept registered events and their payloads", () => {
+    const callback = vi.fn();
+    // @ts-expect-error Misspelled events fail the build
+    bus.on("test:evnt", callback);
+    // @ts-expect-error Payloads must match the event
+    bus.emit("test:event", { data: 1 });
+    // @ts-expect-error Misspelled getters fail the build
+    expect(bus.get("get:respons")).toEqual([]);
+  });
+
   it("should remove event listeners", () => {
     const callback = vi.fn();
     bus.on("test:event", callback);
@@ -44,7 +78,11 @@ describe("Bus", () => {
 
   it("should deregister itself from the root bus", () => {
     rootBus = Bus.getRootBus();
-    const eventNames = ["test:event", "another:event", "yet:another:event"];
+    const eventNames = [
+      "test:event",
+      "another:event",
+      "yet:another:event",
+    ] as const;
     eventNames.forEach((event) => {
       bus.on(event, () => {});
     });
@@ -82,6 +120,51 @@ describe("Bus", () => {
     expect(callback2).not.toHaveBeenCalled();
   });
 
+  it("should keep anonymous listeners apart", () => {
+    const listeners = [vi.fn(), vi.fn()];
+    const subscriptions = listeners.map((listener) =>
+      bus.on("test:event", (payload) => listener(payload)),
+    );
+    bus.emit("test:event", { data: "test" });
+    listeners.forEach((listener) => expect(listener).toHaveBeenCalledOnce());
+
+    subscriptions[0].dispose();
+    bus.emit("test:event", { data: "test" });
+    expect(listeners[0]).toHaveBeenCalledOnce();
+    expect(listeners[1]).toHaveBeenCalledTimes(2);
+  });
+
+  it("should remove listeners with their subscription", () => {
+    const callback = vi.fn();
+    const subscription = bus.on("test:event", callback);
+    subscription.dispose();
+    subscription.dispose(); // Disposing twice does nothing
+    bus.emit("test:event", { data: "test" });
+    expect(callback).not.toHaveBeenCalled();
+    expect(bus.hasActiveListeners("test:event")).toBe(false);
+
+    const patternSubscription = bus.onPattern("test:*", callback);
+    patternSubscription.dispose();
+    patternSubscription.dispose();
+    bus.emit("test:event", { data: "test" });
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it("should only call once listeners for the first event", () => {
+    const callback = vi.fn();
+    bus.once("test:event", callback);
+    bus.emit("test:event", { data: "first" });
+    bus.emit("test:event", { data: "second" });
+    expect(callback).toHaveBeenCalledExactlyOnceWith({ data: "first" });
+    expect(bus.hasActiveListeners("test:event")).toBe(false);
+
+    const subscription = bus.once("test:event", callback);
+    bus.off("test:event", callback);
+    subscription.dispose();
+    bus.emit("test:event", { data: "third" });
+    expect(callback).toHaveBeenCalledOnce();
+  });
+
   it("should warn if trying to add a listener that already exists", () => {
     const consoleWarnSpy = vi
       .spyOn(console, "warn")
@@ -161,6 +244,129 @@ describe("Bus", () => {
     expect(bus8.hasActiveListeners("test:event:all")).toBe(false);
   });
 
+  it("should only send events within the selected scope", () => {
+    const parent = Bus.getInstance("scopeParentBus", bus);
+    const child = Bus.getInstance("scopeChildBus", parent);
+    const sibling = Bus.getInstance("scopeSiblingBus", bus);
+    const listeners = [bus, parent, child, sibling].map((scopedBus) => {
+      const listener = vi.fn();
+      scopedBus.on("test:event:scoped", listener);
+      return listener;
+    });
+    const [busListener, parentListener, childListener, siblingListener] =
+      listeners;
+    const resetListeners = () =>
+      listeners.forEach((listener) => listener.mockClear());
+
+    parent.emitWithScope(BusScopes.LOCAL, "test:event:scoped");
+    expect(listeners.map((listener) => listener.mock.calls.length)).toEqual([
+      0, 1, 0, 0,
+    ]);
+    resetListeners();
+
+    parent.emitWithScope(BusScopes.UP, "test:event:scoped");
+    expect(busListener).toHaveBeenCalled();
+    expect(parentListener).toHaveBeenCalled();
+    expect(childListener).not.toHaveBeenCalled();
+    expect(siblingListener).not.toHaveBeenCalled();
+    resetListeners();
+
+    parent.emitWithScope(BusScopes.DOWN, "test:event:scoped");
+    expect(busListener).not.toHaveBeenCalled();
+    expect(parentListener).toHaveBeenCalled();
+    expect(childListener).toHaveBeenCalled();
+    expect(siblingListener).not.toHaveBeenCalled();
+    resetListeners();
+
+    parent.emitWithScope(BusScopes.GLOBAL, "test:event:scoped");
+    listeners.forEach((listener) => expect(listener).toHaveBeenCalledOnce());
+  });
+
+  it("should scope events by their name suffix", () => {
+    const parent = Bus.getInstance("suffixParentBus", bus);
+    const child = Bus.getInstance("suffixChildBus", parent);
+    const privateListener = vi.fn();
+    const bubblingListener = vi.fn();
+    bus.on("test:event:private:local", privateListener);
+    bus.on("test:event:bubbling:up", bubblingListener);
+    child.on("test:event:bubbling:up", bubblingListener);
+
+    child.emit("test:event:private:local");
+    expect(privateListener).not.toHaveBeenCalled();
+    parent.emit("test:event:bubbling:up");
+    expect(bubblingListener).toHaveBeenCalledOnce();
+
+    expect(Bus.getEventScope("test:event:scoped")).toBe(BusScopes.GLOBAL);
+    expect(Bus.getEventScope("timer:tick:global")).toBe(BusScopes.GLOBAL);
+    expect(Bus.getEventScope("test:event:private:local")).toBe(BusScopes.LOCAL);
+  });
+
+  it("should send events to pattern listeners", () => {
+    const child = Bus.getInstance("patternChildBus", bus);
+    const singleSegment = vi.fn();
+    const anySegments = vi.fn();
+    child.onPattern("wildcard:*", singleSegment);
+    child.onPattern("wildcard:**", anySegments);
+
+    bus.emit("wildcard:one", 1);
+    bus.emit("wildcard:one:two");
+    bus.emit("wildcard:two:three:four");
+    bus.emit("test:event", { data: "test" });
+
+    expect(singleSegment.mock.calls).toEqual([["wildcard:one", 1]]);
+    expect(anySegments.mock.calls).toEqual([
+      ["wildcard:one", 1],
+      ["wildcard:one:two"],
+      ["wildcard:two:three:four"],
+    ]);
+    expect(child.hasActiveListeners("wildcard:one:two")).toBe(true);
+    expect(child.hasActiveListeners("test:event")).toBe(false);
+  });
+
+  it("should match patterns without the scope suffix", () => {
+    const payload = { phase: {} } as PhasePayload;
+    const timerListener = vi.fn();
+    const privateListener = vi.fn();
+    bus.onPattern("timer:*", timerListener);
+    bus.onPattern("test:event:*", privateListener);
+
+    bus.emit(TimerEvents.TICK, payload);
+    bus.emit("test:event:private:local");
+    bus.emit("test:event", { data: "test" });
+
+    expect(timerListener.mock.calls).toEqual([[TimerEvents.TICK, payload]]);
+    expect(privateListener.mock.calls).toEqual([["test:event:private:local"]]);
+  });
+
+  it("should send every event to onAny listeners", () => {
+    const listener = vi.fn();
+    bus.onAny(listener);
+    bus.emit("test:event", { data: "test" });
+    bus.emit("another:event");
+    expect(listener.mock.calls).toEqual([
+      ["test:event", { data: "test" }],
+      ["another:event"],
+    ]);
+  });
+
+  it("should remove pattern listeners", () => {
+    const listener = vi.fn();
+    const otherListener = vi.fn();
+    bus.onPattern("wildcard:*", listener);
+    bus.onPattern("wildcard:*", otherListener);
+    bus.offPattern("wildcard:*", listener);
+    bus.emit("wildcard:one", 1);
+    expect(listener).not.toHaveBeenCalled();
+    expect(otherListener).toHaveBeenCalledOnce();
+
+    bus.offPattern("wildcard:*", otherListener);
+    expect(bus.hasActiveListeners()).toBe(false);
+    expect(() => bus.offPattern("wildcard:*", otherListener)).toThrow(
+      'not found for pattern "wildcard:*"',
+    );
+    expect(() => bus.offAny(listener)).toThrow('not found for pattern "**"');
+  });
+
   it("should collate all getters for request and map the responses", () => {
     const bus2 = Bus.getInstance("testBus2");
     const bus3 = Bus.getInstance("testBus3");
@@ -195,6 +401,65 @@ describe("Bus", () => {
       "response6",
       "response7",
     ]);
+    bus2.destroy();
+    bus3.destroy();
+  });
+
+  it("should resolve a single getter", () => {
+    const child = Bus.getInstance("singleGetterBus", bus);
+    expect(() => bus.getOne("get:response")).toThrow(
+      'No getter registered for "get:response"',
+    );
+    child.registerGetter("get:response", () => "response");
+    expect(bus.getOne("get:response")).toBe("response");
+    bus.registerGetter("get:response", () => "another response");
+    expect(() => bus.getOne("get:response")).toThrow(
+      'Multiple getters registered for "get:response"',
+    );
+    child.destroy();
+  });
+
+  it("should order getters by priority", () => {
+    const child = Bus.getInstance("priorityGetterBus", bus);
+    expect(bus.getFirst("get:response")).toBeUndefined();
+    bus.registerGetter("get:response", () => "default");
+    child.registerGetter("get:response", () => "high", 10);
+    child.registerGetter("get:response", () => "low", -10);
+    expect(bus.get("get:response")).toEqual(["high", "default", "low"]);
+    expect(bus.getFirst("get:response")).toBe("high");
+    child.destroy();
+  });
+
+  it("should resolve async getters", async () => {
+    bus.registerGetter("get:response", () => "sync");
+    bus.registerGetter("get:response:async", async () => "async");
+    await expect(bus.getAsync("get:response")).resolves.toEqual(["sync"]);
+    await expect(bus.getOneAsync("get:response:async")).resolves.toBe("async");
+  });
+
+  it("should reject async getters that throw synchronously", async () => {
+    vi.useFakeTimers();
+    bus.registerGetter("get:response", () => {
+      throw new Error("Getter failed");
+    });
+    await expect(bus.getAsync("get:response")).rejects.toThrow("Getter failed");
+    await expect(bus.getOneAsync("get:response")).rejects.toThrow(
+      "Getter failed",
+    );
+    expect(vi.getTimerCount()).toBe(0);
+    vi.useRealTimers();
+  });
+
+  it("should reject async getters that time out", async () => {
+    vi.useFakeTimers();
+    bus.getterTimeout = 1000;
+    bus.registerGetter("get:response:async", () => new Promise(() => {}));
+    const response = bus.getOneAsync("get:response:async");
+    vi.advanceTimersByTime(1000);
+    await expect(response).rejects.toThrow(
+      'Getter "get:response:async" timed out after 1000ms',
+    );
+    vi.useRealTimers();
   });
 
   // it("should emit global events to the root bus", () => {
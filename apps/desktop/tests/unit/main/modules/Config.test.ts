@@ -1,6 +1,8 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { Config } from "@/main/modules/Config.js";
 import { Bus } from "@/main/core/Bus.js";
+import { type ScheduleConfig } from "@/data/models/Schedule.ts";
+import { ConfigEvents } from "@/shared/enums.ts";
 
 describe("Config", () => {
   let bus: Bus;
@@ -21,19 +23,59 @@ describe("Config", () => {
   });
 
   it("should load configs from user data", () => {
-    config.set("test", "testValue");
-    console.log(config.get("test"));
-    expect(config.get("test")).toBe("testValue");
+    config.set("autopilot", true);
+    expect(config.get("autopilot")).toBe(true);
   });
 
   it("should set and get config values", () => {
-    config.set("newKey", "newValue");
-    expect(config.get("newKey")).toBe("newValue");
+    config.set("completeParentTasks", true);
+    expect(config.get("completeParentTasks")).toBe(true);
   });
 
   it("should be able to handle requests via the bus", () => {
-    config.set("busKey", "busValue");
-    const busValue = bus.get("config:get", "busKey");
-    expect(busValue).toEqual(["busValue"]);
+    config.set("autopilot", false);
+    const busValue = bus.get("config:get", "autopilot");
+    expect(busValue).toEqual([false]);
+  });
+
+  it("should validate and save config values sent over the bus", () => {
+    const changed = vi.fn();
+    bus.on(ConfigEvents.CHANGED, changed);
+    const schedule: ScheduleConfig = {
+      availability: [
+        {
+          day: "Monday",
+          timeBlocks: [{ startTime: "09:00", endTime: "12:00" }],
+        },
+      ],
+      overrides: [],
+      holidays: [],
+    };
+    bus.emit(ConfigEvents.SET, "schedule", schedule);
+    expect(config.get("schedule")).toEqual(schedule);
+    expect(changed).toHaveBeenCalledWith({ key: "schedule", value: schedule });
+  });
+
+  it("should keep the current value when the store rejects a new one", () => {
+    config.set("autopilot", true);
+    expect(() =>
+      config.set("autopilot", "yes" as unknown as boolean),
+    ).toThrow();
+    expect(config.get("autopilot")).toBe(true);
+  });
+
+  it("should reject unknown keys and invalid values", () => {
+    expect(() => config.handleSet("unknown", true)).toThrow(
+      'Unknown config key "unknown"',
+    );
+    expect(() => config.handleSet("constructor", true)).toThrow(
+      'Unknown config key "constructor"',
+    );
+    expect(() => config.handleSet("toString", true)).toThrow(
+      'Unknown config key "toString"',
+    );
+    expect(() => config.handleSet("autopilot", "yes")).toThrow(
+      'Invalid value for config "autopilot"',
+    );
   });
 });
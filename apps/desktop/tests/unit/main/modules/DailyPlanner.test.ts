@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { getMockElectronStore } from "../../data/stores/mockElectronStore.ts";
+import { DailyPlanner } from "@/main/modules/DailyPlanner.ts";
+import { Bus } from "@/main/core/Bus.ts";
+import { TasksStore } from "@/data/stores/TasksStore.ts";
+import { DailyPlanningEvents, TaskStates } from "@/shared/enums.ts";
+
+vi.mock("@/main/modules/Config.ts", () => ({
+  config: {
+    get: (key: string) =>
+      key === "schedule" ? { availability: [], timeZone: "UTC" } : undefined,
+  },
+}));
+
+describe("DailyPlanner", () => {
+  let plannerInstance: DailyPlanner;
+  let bus: Bus;
+  const { storeData } = getMockElectronStore();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-06-02T08:00:00Z"));
+    storeData.clear();
+    TasksStore.getInstance().addTasks(
+      {
+        id: "1",
+        title: "Write report",
+        state: TaskStates.PENDING,
+        priority: "medium",
+        completedPomodoros: 0,
+        actualFocusTime: 0,
+        tags: [],
+        subtasks: [],
+      },
+      {
+        id: "2",
+        title: "Review PR",
+        state: TaskStates.IN_PROGRESS,
+        priority: "high",
+        completedPomodoros: 0,
+        actualFocusTime: 0,
+        tags: [],
+        subtasks: [],
+      },
+      {
+        id: "3",
+        title: "Ship release",
+        state: TaskStates.COMPLETED,
+        priority: "medium",
+        completedPomodoros: 0,
+        actualFocusTime: 0,
+        tags: [],
+        subtasks: [],
+      },
+    );
+    bus = Bus.getInstance("testBus");
+    plannerInstance = DailyPlanner.getInstance();
+  });
+
+  afterEach(() => {
+    bus.destroy();
+    plannerInstance.destroy();
+    vi.useRealTimers();
+  });
+
+  it("should offer in-progress and pending tasks for planning", () => {
+    const [candidates] = bus.get("planning:daily:candidates");
+    expect(candidates.map(({ id }) => id)).toEqual(["2", "1"]);
+  });
+
+  it("should save today's planning from bus commands", () => {
+    const saved = vi.fn();
+    bus.on(DailyPlanningEvents.SAVED, saved);
+    expect(plannerInstance.isPlannedToday()).toBe(false);
+
+    bus.emit(DailyPlanningEvents.SAVE, [
+      { taskId: "1", estimatedPomodoros: 3 },
+    ]);
+
+    const planning = plannerInstance.getTodaysPlanning();
+    expect(planning).toEqual({
+      date: "2025-06-02",
+      completedAt: Date.now(),
+      tasks: [{ taskId: "1", estimatedPomodoros: 3 }],
+    });
+    expect(plannerInstance.isPlannedToday()).toBe(true);
+    expect(saved).toHaveBeenCalledWith({ planning });
+  });
+
+  it("should ask again on the next day", () => {
+    plannerInstance.savePlanning([]);
+    vi.setSystemTime(new Date("2025-06-03T08:00:00Z"));
+    expect(plannerInstance.getTodaysPlanning()).toBeNull();
+  });
+
+  it("should reject unknown tasks and invalid estimates", () => {
+    expect(() =>
+      plannerInstance.savePlanning([{ taskId: "9", estimatedPomodoros: 1 }]),
+    ).toThrow('Task "9" not found');
+    expect(() =>
+      plannerInstance.savePlanning([{ taskId: "1", estimatedPomodoros: 0 }]),
+    ).toThrow();
+    expect(plannerInstance.getTodaysPlanning()).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { BrowserWindow, ipcMain } from "electron";
+import { IpcBridge } from "@/main/core/IpcBridge.ts";
+import { Bus } from "@/main/core/Bus.ts";
+import { Phase } from "@/main/modules/Phase.ts";
+import {
+  IpcChannels,
+  Phases,
+  TimerActions,
+  TimerEvents,
+} from "@/shared/enums.ts";
+
+describe("IpcBridge", () => {
+  let ipcBridge: IpcBridge;
+  let bus: Bus;
+  const send = vi.fn();
+
+  beforeEach(() => {
+    send.mockClear();
+    Object.assign(BrowserWindow, {
+      getAllWindows: vi.fn(() => [
+        { isDestroyed: () => false, webContents: { send } },
+      ]),
+    });
+    bus = Bus.getInstance("testBus");
+    ipcBridge = IpcBridge.getInstance();
+  });
+
+  afterEach(() => {
+    bus.destroy();
+  });
+
+  it("should register IPC handlers for getters and commands", () => {
+    expect(ipcMain.handle).toHaveBeenCalledWith(
+      IpcChannels.BUS_GET,
+      expect.any(Function),
+    );
+    expect(ipcMain.handle).toHaveBeenCalledWith(
+      IpcChannels.BUS_COMMAND,
+      expect.any(Function),
+    );
+  });
+
+  it("should resolve whitelisted getters", async () => {
+    const getter = vi.fn(() => true);
+    bus.registerGetter("config:get", getter);
+    await expect(
+      ipcBridge.handleGet(null, "config:get", "autopilot"),
+    ).resolves.toBe(true);
+    expect(getter).toHaveBeenCalledWith("autopilot");
+  });
+
+  it("should reject getters that are not whitelisted", async () => {
+    const getter = vi.fn();
+    bus.registerGetter("history:sessions:between", getter);
+    await expect(
+      // @ts-expect-error The renderer can only ask for whitelisted getters
+      ipcBridge.handleGet(null, "history:sessions:between"),
+    ).rejects.toThrow(
+      'Getter "history:sessions:between" is not exposed to the renderer',
+    );
+    expect(getter).not.toHaveBeenCalled();
+  });
+
+  it("should reject getters without a provider", async () => {
+    await expect(ipcBridge.handleGet(null, "tasks:all")).rejects.toThrow(
+      'No getter registered for "tasks:all"',
+    );
+  });
+
+  it("should emit whitelisted commands on the bus", () => {
+    const listener = vi.fn();
+    bus.on(TimerEvents.ACTION, listener);
+    ipcBridge.handleCommand(null, TimerEvents.ACTION, TimerActions.START);
+    expect(listener).toHaveBeenCalledWith(TimerActions.START);
+  });
+
+  it("should reject commands that are not whitelisted", () => {
+    const listener = vi.fn();
+    bus.on(TimerEvents.PHASE_END, listener);
+    expect(() =>
+      // @ts-expect-error The renderer can only send whitelisted commands
+      ipcBridge.handleCommand(null, TimerEvents.PHASE_END),
+    ).toThrow();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should forward whitelisted events as phase snapshots", () => {
+    const phase = new Phase({ type: Phases.FOCUS, allocatedTime: 60_000 });
+    bus.emit(TimerEvents.TICK, { phase });
+    expect(send).toHaveBeenCalledWith(IpcChannels.BUS_EVENT, TimerEvents.TICK, {
+      phase: phase.toSnapshot(),
+    });
+  });
+
+  it("should not forward events outside the whitelist", () => {
+    bus.emit("app:before-quit");
+    expect(send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { PhaseSequence } from "@/main/modules/PhaseSequence.ts";
+import { Phases } from "@/shared/enums.ts";
+
+describe("PhaseSequence", () => {
+  const phases = [
+    { type: Phases.PLANNING },
+    { type: Phases.FOCUS },
+    { type: Phases.BREAK },
+    { type: Phases.LONG_BREAK },
+  ];
+
+  it("should cycle through the phases skipping the long break", () => {
+    const sequence = new PhaseSequence(phases, { longBreakInterval: 4 });
+    expect(sequence.getNextIndex(0, 0)).toBe(1);
+    expect(sequence.getNextIndex(1, 1)).toBe(2);
+    expect(sequence.getNextIndex(2, 1)).toBe(0);
+  });
+
+  it("should replace the break with a long break every N cycles", () => {
+    const sequence = new PhaseSequence(phases, { longBreakInterval: 2 });
+    expect(sequence.getNextIndex(1, 1)).toBe(2);
+    expect(sequence.getNextIndex(1, 2)).toBe(3);
+    expect(sequence.getNextIndex(1, 4)).toBe(3);
+  });
+
+  it("should continue after the regular break once the long break ends", () => {
+    const sequence = new PhaseSequence(phases, { longBreakInterval: 2 });
+    expect(sequence.getNextIndex(3, 2)).toBe(0);
+  });
+
+  it("should not repeat a long break until another cycle is completed", () => {
+    const sequence = new PhaseSequence(phases, { longBreakInterval: 2 });
+    // The focus phase after the long break was skipped
+    expect(sequence.isLongBreakDue(2, 2)).toBe(false);
+    expect(sequence.getNextIndex(1, 2, 2)).toBe(2);
+    expect(sequence.getNextIndex(1, 4, 2)).toBe(3);
+  });
+
+  it("should never take a long break if none is configured", () => {
+    const sequence = new PhaseSequence(phases.slice(0, 3), {
+      longBreakInterval: 1,
+    });
+    expect(sequence.isLongBreakDue(1)).toBe(false);
+    expect(sequence.getNextIndex(1, 1)).toBe(2);
+  });
+
+  it("should only count focus phases as cycles", () => {
+    const sequence = new PhaseSequence(phases);
+    expect(sequence.countCycles(phases[0], 2)).toBe(2);
+    expect(sequence.countCycles(phases[1], 2)).toBe(3);
+  });
+});
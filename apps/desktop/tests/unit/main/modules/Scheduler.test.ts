@@ -1,21 +1,64 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getMockElectronStore } from "../../data/stores/mockElectronStore.ts";
 import { Scheduler } from "@/main/modules/Scheduler.js";
+import { Bus } from "@/main/core/Bus.ts";
+import { PhaseSequence } from "@/main/modules/PhaseSequence.ts";
+import { config } from "@/main/modules/Config.ts";
+import { ScheduleStore } from "@/data/stores/ScheduleStore.ts";
+import { TasksStore } from "@/data/stores/TasksStore.ts";
+import { toDateKey } from "@/shared/dateUtils.ts";
+import {
+  ConfigEvents,
+  Phases,
+  SchedulerEvents,
+  TaskStates,
+} from "@/shared/enums.js";
+
+vi.mock("@/main/modules/Config.ts", async () => {
+  const { default: appConfigs } =
+    await import("../../fixtures/appConfigs.json");
+  const configs: Record<string, unknown> = {
+    ...appConfigs,
+    phases: [
+      { type: "planning", allocatedTime: 5 * 60_000 },
+      { type: "focus", allocatedTime: 25 * 60_000 },
+      { type: "break", allocatedTime: 5 * 60_000 },
+      { type: "long_break", allocatedTime: 15 * 60_000 },
+    ],
+  };
+  return {
+    config: {
+      get: (key: string) => configs[key],
+      set: (key: string, value: unknown) => (configs[key] = value),
+    },
+  };
+});
 
 describe("Scheduler", () => {
   let schedulerInstance: Scheduler;
+  let bus: Bus;
+  let monday: Date;
+  const { storeData } = getMockElectronStore();
 
   beforeEach(() => {
     const today = new Date();
-    const monday = new Date(today);
+    monday = new Date(today);
     monday.setDate(today.getDate() + ((1 + 7 - today.getDay()) % 7));
+    monday.setHours(8, 0, 0, 0);
 
     vi.useFakeTimers();
     vi.setSystemTime(monday);
 
+    storeData.clear();
+    bus = Bus.getInstance("testBus");
     schedulerInstance = Scheduler.getInstance();
   });
 
   afterEach(() => {
+    bus.destroy();
     schedulerInstance.destroy();
     vi.useRealTimers();
   });
@@ -37,4 +80,409 @@ describe("Scheduler", () => {
     expect(Array.isArray(slots)).toBe(true);
     // Add more specific checks based on the expected slots
   });
+
+  it("should generate phase slots for each availability block", () => {
+    const slots = schedulerInstance.generateSlots();
+    const firstBlockSlots = slots.filter(
+      (slot) => slot.startTime.getHours() < 13,
+    );
+    expect(firstBlockSlots[0].type).toBe(Phases.PLANNING);
+    expect(firstBlockSlots[0].startTime.getHours()).toBe(9);
+    expect(firstBlockSlots.at(-1)!.endTime.getHours()).toBeLessThanOrEqual(13);
+    const secondBlockSlots = slots.slice(firstBlockSlots.length);
+    expect(secondBlockSlots[0].type).toBe(Phases.PLANNING);
+    expect(secondBlockSlots[0].startTime.getHours()).toBe(13);
+    expect(secondBlockSlots[0].startTime.getMinutes()).toBe(30);
+  });
+
+  it("should schedule a long break after every N focus cycles", () => {
+    const types = schedulerInstance
+      .generateSlots()
+      .filter((slot) => slot.type !== Phases.PLANNING)
+      .map((slot) => slot.type);
+    expect(types.slice(0, 8)).toEqual([
+      Phases.FOCUS,
+      Phases.BREAK,
+      Phases.FOCUS,
+      Phases.BREAK,
+      Phases.FOCUS,
+      Phases.BREAK,
+      Phases.FOCUS,
+      Phases.LONG_BREAK,
+    ]);
+  });
+
+  it("should persist today's plan", () => {
+    const plan = schedulerInstance.getDayPlan();
+    expect(plan.slots.length).toBeGreaterThan(0);
+    expect(storeData.get("dayPlan")).toEqual(plan);
+    expect(bus.get("schedule:plan:today")).toEqual([plan]);
+  });
+
+  it("should reuse a stored plan for the same day", () => {
+    const plan = schedulerInstance.getDayPlan();
+    schedulerInstance.destroy();
+    schedulerInstance = Scheduler.getInstance();
+    expect(schedulerInstance.getDayPlan()).toEqual(plan);
+  });
+
+  it("should only offer slots that have not ended", () => {
+    const plan = schedulerInstance.getDayPlan();
+    vi.setSystemTime(plan.slots[1].startTime);
+    const availableSlots = schedulerInstance.getAvailableSlots();
+    expect(availableSlots[0]).toEqual(plan.slots[1]);
+    expect(availableSlots).toHaveLength(plan.slots.length - 1);
+    expect(schedulerInstance.getCurrentSlot()).toEqual(plan.slots[1]);
+  });
+
+  it("should regenerate the plan at midnight", () => {
+    const planUpdated = vi.fn();
+    bus.on(SchedulerEvents.PLAN_UPDATED, planUpdated);
+    vi.advanceTimersByTime(16 * 60 * 60_000); // Tuesday, 00:00
+    const plan = schedulerInstance.getDayPlan();
+    expect(plan.date).not.toBe(toDateKey(monday));
+    expect(plan.slots).toEqual([]); // No availability on Tuesdays
+    expect(planUpdated).toHaveBeenCalledWith({ plan });
+  });
+
+  it("should regenerate the plan when the schedule config changes", () => {
+    const schedule = config.get("schedule");
+    config.set("schedule", {
+      availability: [
+        {
+          day: "Monday",
+          timeBlocks: [{ startTime: "10:00", endTime: "11:00" }],
+        },
+      ],
+      overrides: [],
+      holidays: [],
+    });
+    bus.emit(ConfigEvents.CHANGED, {
+      key: "schedule",
+      value: config.get("schedule"),
+    });
+    const [firstSlot] = schedulerInstance.getDayPlan().slots;
+    expect(firstSlot.startTime.getHours()).toBe(10);
+    config.set("schedule", schedule);
+  });
+
+  it("should carry overnight blocks into the next day's plan", () => {
+    const schedule = config.get("schedule");
+    config.set("schedule", {
+      ...schedule,
+      availability: [
+        {
+          day: "Monday",
+          timeBlocks: [{ startTime: "22:00", endTime: "02:00" }],
+        },
+      ],
+    });
+    bus.emit(ConfigEvents.CHANGED, {
+      key: "schedule",
+      value: config.get("schedule"),
+    });
+    const [block] = schedulerInstance.getBlocks(monday);
+    expect(block.endTime.getTime() - block.startTime.getTime()).toBe(
+      4 * 60 * 60_000,
+    );
+    vi.advanceTimersByTime(17 * 60 * 60_000); // Tuesday, 01:00
+    const plan = schedulerInstance.getDayPlan();
+    expect(plan.date).not.toBe(toDateKey(monday));
+    expect(schedulerInstance.getCurrentSlot()).toBeDefined();
+    expect(plan.slots.at(-1)!.endTime.getTime()).toBeLessThanOrEqual(
+      block.endTime.getTime(),
+    );
+    config.set("schedule", schedule);
+  });
+
+  it("should read the availability in the schedule's time zone", () => {
+    const schedule = config.get("schedule");
+    config.set("schedule", {
+      ...schedule,
+      timeZone: "Asia/Tokyo",
+      availability: [
+        {
+          day: "Monday",
+          timeBlocks: [{ startTime: "09:00", endTime: "10:00" }],
+        },
+      ],
+    });
+    bus.emit(ConfigEvents.CHANGED, {
+      key: "schedule",
+      value: config.get("schedule"),
+    });
+    expect(
+      schedulerInstance.getBlocks(new Date("2025-06-02T03:00:00Z")),
+    ).toEqual([
+      {
+        startTime: new Date("2025-06-02T00:00:00Z"),
+        endTime: new Date("2025-06-02T01:00:00Z"),
+      },
+    ]);
+    config.set("schedule", schedule);
+  });
+
+  it("should use a date override instead of the weekly availability", () => {
+    const schedule = config.get("schedule");
+    config.set("schedule", {
+      ...schedule,
+      overrides: [
+        {
+          date: toDateKey(monday),
+          timeBlocks: [{ startTime: "14:00", endTime: "15:00" }],
+        },
+      ],
+    });
+    bus.emit(ConfigEvents.CHANGED, {
+      key: "schedule",
+      value: config.get("schedule"),
+    });
+    expect(schedulerInstance.getAvailability(monday)).toEqual([
+      { startTime: "14:00", endTime: "15:00" },
+    ]);
+    const [firstSlot] = schedulerInstance.getDayPlan().slots;
+    expect(firstSlot.startTime.getHours()).toBe(14);
+    config.set("schedule", schedule);
+  });
+
+  it("should leave holidays free even when they are overridden", () => {
+    const schedule = config.get("schedule");
+    config.set("schedule", {
+      ...schedule,
+      overrides: [
+        {
+          date: toDateKey(monday),
+          timeBlocks: [{ startTime: "14:00", endTime: "15:00" }],
+        },
+      ],
+      holidays: [{ date: toDateKey(monday), name: "Founders Day" }],
+    });
+    bus.emit(ConfigEvents.CHANGED, {
+      key: "schedule",
+      value: config.get("schedule"),
+    });
+    expect(schedulerInstance.getDayPlan().slots).toEqual([]);
+    config.set("schedule", schedule);
+  });
+
+  it("should import holidays from an .ics file", async () => {
+    const schedule = config.get("schedule");
+    const directory = await mkdtemp(join(tmpdir(), "kazari-"));
+    const filePath = join(directory, "holidays.ics");
+    await writeFile(
+      filePath,
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "DTSTART;VALUE=DATE:20250101",
+        "SUMMARY:New Year's Day",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n"),
+    );
+    try {
+      const holidays = await schedulerInstance.importHolidays(filePath);
+      expect(holidays).toEqual([
+        { date: "2025-01-01", name: "New Year's Day" },
+      ]);
+      expect(config.get("schedule").holidays).toEqual(holidays);
+    } finally {
+      await rm(directory, { recursive: true });
+      config.set("schedule", schedule);
+    }
+  });
+
+  it("should offer the focus slots up to the next planning slot", () => {
+    const slots = schedulerInstance.getAvailableSlots();
+    const sessionSlots = schedulerInstance.getSessionSlots();
+    const nextPlanning = slots.find(
+      (slot) =>
+        slot.type === Phases.PLANNING &&
+        slot.startTime > sessionSlots[0].startTime,
+    );
+    expect(sessionSlots.length).toBeGreaterThan(0);
+    sessionSlots.forEach((slot) => {
+      expect(slot.type).toBe(Phases.FOCUS);
+      if (nextPlanning)
+        expect(slot.startTime < nextPlanning.startTime).toBe(true);
+    });
+  });
+
+  it("should find the next focus slot after the current one", () => {
+    const slots = schedulerInstance.getDayPlan().slots;
+    const breakSlot = slots.find((slot) => slot.type === Phases.BREAK)!;
+    vi.setSystemTime(breakSlot.startTime.getTime() + 60_000);
+
+    const next = schedulerInstance.getNextFocusSlot();
+    expect(next?.type).toBe(Phases.FOCUS);
+    expect(next!.startTime.getTime()).toBeGreaterThan(
+      breakSlot.startTime.getTime(),
+    );
+    expect(next?.id).toBe(
+      slots.find(
+        (slot) =>
+          slot.type === Phases.FOCUS &&
+          slot.startTime.getTime() > breakSlot.startTime.getTime(),
+      )?.id,
+    );
+  });
+
+  it("should assign tasks to a focus slot and start them", () => {
+    TasksStore.getInstance().addTasks({
+      id: "task-1",
+      title: "Write report",
+      state: TaskStates.PENDING,
+      priority: "medium",
+      completedPomodoros: 0,
+      actualFocusTime: 0,
+      tags: [],
+      subtasks: [],
+    });
+    const assigned = vi.fn();
+    bus.on(SchedulerEvents.TASKS_ASSIGNED, assigned);
+    const [slot] = schedulerInstance.getSessionSlots();
+
+    bus.emit(SchedulerEvents.ASSIGN_TASKS, slot.id, ["task-1"]);
+
+    const storedSlot = ScheduleStore.getInstance()
+      .getDayPlan()!
+      .slots.find(({ id }) => id === slot.id);
+    expect(storedSlot!.taskIds).toEqual(["task-1"]);
+    expect(TasksStore.getInstance().getTaskById("task-1")!.state).toBe(
+      TaskStates.IN_PROGRESS,
+    );
+    expect(assigned).toHaveBeenCalledWith({
+      slot: expect.objectContaining({ id: slot.id, taskIds: ["task-1"] }),
+    });
+
+    // Regenerating the plan keeps the assignment
+    bus.emit(ConfigEvents.CHANGED, {
+      key: "schedule",
+      value: config.get("schedule"),
+    });
+    const regeneratedSlot = schedulerInstance
+      .getDayPlan()
+      .slots.find(
+        ({ startTime }) => startTime.getTime() === slot.startTime.getTime(),
+      );
+    expect(regeneratedSlot!.taskIds).toEqual(["task-1"]);
+  });
+
+  it("should only assign existing tasks to focus slots", () => {
+    const [planningSlot] = schedulerInstance.getAvailableSlots();
+    const [focusSlot] = schedulerInstance.getSessionSlots();
+    expect(planningSlot.type).toBe(Phases.PLANNING);
+    expect(() => schedulerInstance.assignTasks(planningSlot.id, [])).toThrow(
+      "is not a focus slot",
+    );
+    expect(() => schedulerInstance.assignTasks(focusSlot.id, ["nope"])).toThrow(
+      'Task "nope" not found',
+    );
+    expect(() => schedulerInstance.assignTasks("missing", [])).toThrow(
+      'Slot "missing" not found',
+    );
+  });
+
+  describe("autopilot", () => {
+    beforeEach(() => {
+      config.set("autopilot", true);
+    });
+
+    afterEach(() => {
+      config.set("autopilot", false);
+    });
+
+    it("should start each availability block on time", () => {
+      const blockStart = vi.fn();
+      bus.on(SchedulerEvents.BLOCK_START, blockStart);
+      schedulerInstance.armAutopilot();
+      expect(blockStart).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(60 * 60_000); // 09:00
+      const [firstSlot] = schedulerInstance.getDayPlan().slots;
+      expect(blockStart).toHaveBeenCalledWith({
+        block: schedulerInstance.getBlocks()[0],
+        slot: firstSlot,
+        completedCycles: 0,
+      });
+    });
+
+    it("should pick up the current slot when launched mid-block", () => {
+      const blockStart = vi.fn();
+      bus.on(SchedulerEvents.BLOCK_START, blockStart);
+      const slots = schedulerInstance.getDayPlan().slots;
+      // Planning, focus, break, focus
+      vi.setSystemTime(slots[3].startTime.getTime() + 60_000);
+      schedulerInstance.armAutopilot();
+      expect(blockStart).toHaveBeenCalledWith(
+        expect.objectContaining({ slot: slots[3], completedCycles: 1 }),
+      );
+    });
+
+    it("should count cycles per block like the planned slots do", () => {
+      const schedule = config.get("schedule");
+      config.set("schedule", {
+        ...schedule,
+        overrides: [
+          {
+            date: toDateKey(monday),
+            timeBlocks: [
+              // Planning, focus, break, focus, break
+              { startTime: "09:00", endTime: "10:05" },
+              { startTime: "14:00", endTime: "16:00" },
+            ],
+          },
+        ],
+      });
+      bus.emit(ConfigEvents.CHANGED, {
+        key: "schedule",
+        value: config.get("schedule"),
+      });
+      const sequence = new PhaseSequence(
+        config.get("phases"),
+        config.get("phaseSequence"),
+      );
+      const secondBlock = schedulerInstance.getBlocks()[1];
+      const breakSlots = schedulerInstance
+        .getDayPlan()
+        .slots.filter(
+          (slot) =>
+            slot.startTime >= secondBlock.startTime &&
+            [Phases.BREAK, Phases.LONG_BREAK].includes(slot.type),
+        );
+      expect(breakSlots.length).toBeGreaterThan(1);
+
+      const blockStart = vi.fn();
+      bus.on(SchedulerEvents.BLOCK_START, blockStart);
+      breakSlots.forEach((slot) => {
+        blockStart.mockClear();
+        vi.setSystemTime(slot.startTime.getTime() + 60_000);
+        schedulerInstance.armAutopilot();
+        const [{ completedCycles }] = blockStart.mock.lastCall!;
+        expect(sequence.isLongBreakDue(completedCycles)).toBe(
+          slot.type === Phases.LONG_BREAK,
+        );
+      });
+      config.set("schedule", schedule);
+    });
+
+    it("should end each availability block on time", () => {
+      const blockEnd = vi.fn();
+      bus.on(SchedulerEvents.BLOCK_END, blockEnd);
+      schedulerInstance.armAutopilot();
+      vi.advanceTimersByTime(5 * 60 * 60_000); // 13:00
+      expect(blockEnd).toHaveBeenCalledWith({
+        block: schedulerInstance.getBlocks()[0],
+      });
+    });
+
+    it("should stay idle when disabled", () => {
+      config.set("autopilot", false);
+      const blockStart = vi.fn();
+      bus.on(SchedulerEvents.BLOCK_START, blockStart);
+      schedulerInstance.armAutopilot();
+      vi.advanceTimersByTime(60 * 60_000);
+      expect(blockStart).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { getMockElectronStore } from "../../data/stores/mockElectronStore.ts";
+import { SessionHistory } from "@/main/modules/SessionHistory.ts";
+import { Phase } from "@/main/modules/Phase.ts";
+import { Bus } from "@/main/core/Bus.ts";
+import { type Task } from "@/data/models/Task.ts";
+import {
+  Phases,
+  SessionHistoryEvents,
+  SessionStatus,
+  TimerEvents,
+} from "@/shared/enums.ts";
+
+describe("SessionHistory", () => {
+  let sessionHistory: SessionHistory;
+  let bus: Bus;
+  const { storeData } = getMockElectronStore();
+
+  const runPhase = (
+    type: Phases,
+    duration: number,
+    { interrupted = false } = {},
+  ) => {
+    const phase = new Phase({ type, allocatedTime: 25 * 60_000 });
+    phase.setActive(true);
+    phase.setStartTime(Date.now());
+    bus.emit(TimerEvents.PHASE_START, { phase });
+    vi.advanceTimersByTime(duration);
+    phase.wasInterrupted = interrupted;
+    phase.end();
+    bus.emit(TimerEvents.PHASE_END, { phase });
+    return phase;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 5, 2, 10, 0));
+    storeData.clear();
+    bus = Bus.getInstance("testBus");
+    sessionHistory = SessionHistory.getInstance();
+  });
+
+  afterEach(() => {
+    bus.destroy();
+    vi.useRealTimers();
+  });
+
+  it("should record a completed phase", () => {
+    const phase = runPhase(Phases.FOCUS, 25 * 60_000);
+    expect(sessionHistory.getSessions()).toEqual([
+      {
+        id: expect.any(String),
+        type: Phases.FOCUS,
+        plannedDuration: 25 * 60_000,
+        actualDuration: 25 * 60_000,
+        overrunTime: 0,
+        startTime: phase.getStartTime(),
+        endTime: phase.getEndedAt(),
+        status: SessionStatus.COMPLETED,
+      },
+    ]);
+  });
+
+  it("should record an interrupted phase", () => {
+    runPhase(Phases.FOCUS, 10 * 60_000, { interrupted: true });
+    const [record] = sessionHistory.getSessions();
+    expect(record.status).toBe(SessionStatus.INTERRUPTED);
+    expect(record.actualDuration).toBe(10 * 60_000);
+  });
+
+  it("should record the task being worked on during a focus phase", () => {
+    bus.registerGetter("tasks:active", () => ({ id: "task-1" }) as Task);
+    runPhase(Phases.FOCUS, 25 * 60_000);
+    runPhase(Phases.BREAK, 5 * 60_000);
+    const [focusRecord, breakRecord] = sessionHistory.getSessions();
+    expect(focusRecord.taskId).toBe("task-1");
+    expect(breakRecord.taskId).toBeUndefined();
+  });
+
+  it("should announce each recorded session", () => {
+    const recorded = vi.fn();
+    bus.on(SessionHistoryEvents.RECORDED, recorded);
+    runPhase(Phases.FOCUS, 25 * 60_000);
+    const [record] = sessionHistory.getSessions();
+    expect(recorded).toHaveBeenCalledWith({ record });
+  });
+
+  it("should sum today's focus minutes", () => {
+    runPhase(Phases.FOCUS, 25 * 60_000);
+    runPhase(Phases.BREAK, 5 * 60_000);
+    runPhase(Phases.FOCUS, 20 * 60_000 + 30_000);
+    expect(sessionHistory.getTodaysFocusMinutes()).toBe(45);
+    expect(bus.get("history:focus:today")).toEqual([45]);
+  });
+
+  it("should retrieve sessions between two dates", () => {
+    runPhase(Phases.FOCUS, 25 * 60_000);
+    vi.setSystemTime(new Date(2025, 5, 3, 10, 0));
+    runPhase(Phases.FOCUS, 25 * 60_000);
+    const sessions = sessionHistory.getSessionsBetween(
+      new Date(2025, 5, 3),
+      new Date(2025, 5, 4),
+    );
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].startTime).toBe(new Date(2025, 5, 3, 10, 0).getTime());
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { getMockElectronStore } from "../../data/stores/mockElectronStore.ts";
+import { Statistics } from "@/main/modules/Statistics.ts";
+import { Phases, SessionStatus, TaskStates } from "@/shared/enums.ts";
+
+describe("Statistics", () => {
+  let statistics: Statistics;
+  const { storeData } = getMockElectronStore();
+
+  const session = (
+    startTime: Date,
+    minutes: number,
+    {
+      type = Phases.FOCUS,
+      status = SessionStatus.COMPLETED,
+      overrunMinutes = 0,
+    } = {},
+  ) => ({
+    id: `${startTime.getTime()}`,
+    type,
+    plannedDuration: (minutes - overrunMinutes) * 60_000,
+    actualDuration: minutes * 60_000,
+    overrunTime: overrunMinutes * 60_000,
+    startTime: startTime.getTime(),
+    endTime: startTime.getTime() + minutes * 60_000,
+    status,
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // Monday
+    vi.setSystemTime(new Date(2025, 5, 2, 18, 0));
+    storeData.clear();
+    statistics = Statistics.getInstance();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should return an empty summary without sessions", () => {
+    const summary = statistics.getSummary();
+    expect(summary.today).toEqual({
+      date: "2025-06-02",
+      focusMinutes: 0,
+      pomodoros: 0,
+    });
+    expect(summary.week).toHaveLength(7);
+    expect(summary.weeklyFocusMinutes).toBe(0);
+    expect(summary.currentStreak).toBe(0);
+    expect(summary.longestStreak).toBe(0);
+    expect(summary.averageOverrunMinutes).toBe(0);
+    expect(summary.heatmap).toHaveLength(7);
+    expect(summary.heatmap[0]).toHaveLength(24);
+  });
+
+  it("should sum focus time and pomodoros per day", () => {
+    storeData.set("sessions", [
+      session(new Date(2025, 5, 2, 9, 0), 25),
+      session(new Date(2025, 5, 2, 10, 0), 10, {
+        status: SessionStatus.INTERRUPTED,
+      }),
+      session(new Date(2025, 5, 2, 9, 25), 5, { type: Phases.BREAK }),
+      session(new Date(2025, 5, 1, 9, 0), 25),
+      session(new Date(2025, 4, 20, 9, 0), 25),
+    ]);
+
+    const summary = statistics.getSummary();
+    expect(summary.today).toEqual({
+      date: "2025-06-02",
+      focusMinutes: 35,
+      pomodoros: 1,
+    });
+    expect(summary.week[0].date).toBe("2025-05-27");
+    expect(summary.week[5]).toEqual({
+      date: "2025-06-01",
+      focusMinutes: 25,
+      pomodoros: 1,
+    });
+    expect(summary.weeklyFocusMinutes).toBe(60);
+    expect(summary.weeklyPomodoros).toBe(2);
+  });
+
+  it("should count the tasks finished this week", () => {
+    storeData.set("tasks", [
+      {
+        id: "1",
+        title: "Done",
+        state: TaskStates.COMPLETED,
+        completedAt: new Date(2025, 4, 28, 9, 0).toISOString(),
+      },
+      {
+        id: "2",
+        title: "Done last month",
+        state: TaskStates.COMPLETED,
+        completedAt: new Date(2025, 4, 20, 9, 0).toISOString(),
+      },
+      { id: "3", title: "Done before tracking", state: TaskStates.COMPLETED },
+      { id: "4", title: "Pending", state: TaskStates.PENDING },
+    ]);
+    expect(statistics.getSummary().weeklyTasksFinished).toBe(1);
+  });
+
+  it("should compute current and longest streaks", () => {
+    storeData.set("sessions", [
+      session(new Date(2025, 4, 20, 9, 0), 25),
+      session(new Date(2025, 4, 21, 9, 0), 25),
+      session(new Date(2025, 4, 22, 9, 0), 25),
+      session(new Date(2025, 4, 31, 9, 0), 25),
+      session(new Date(2025, 5, 1, 9, 0), 25),
+    ]);
+
+    const summary = statistics.getSummary();
+    expect(summary.currentStreak).toBe(2);
+    expect(summary.longestStreak).toBe(3);
+  });
+
+  it("should break the current streak after a day without focus", () => {
+    storeData.set("sessions", [session(new Date(2025, 4, 31, 9, 0), 25)]);
+    expect(statistics.getSummary().currentStreak).toBe(0);
+  });
+
+  it("should average overrun among sessions that overran", () => {
+    storeData.set("sessions", [
+      session(new Date(2025, 5, 2, 9, 0), 30, { overrunMinutes: 5 }),
+      session(new Date(2025, 5, 2, 10, 0), 35, { overrunMinutes: 10 }),
+      session(new Date(2025, 5, 2, 11, 0), 25),
+    ]);
+    expect(statistics.getSummary().averageOverrunMinutes).toBe(7.5);
+  });
+
+  it("should spread focus time across the hours of the heatmap", () => {
+    storeData.set("sessions", [session(new Date(2025, 5, 2, 9, 50), 25)]);
+
+    const { heatmap } = statistics.getSummary();
+    expect(heatmap[1][9]).toBe(10);
+    expect(heatmap[1][10]).toBe(15);
+    expect(heatmap.flat().reduce((total, minutes) => total + minutes)).toBe(25);
+  });
+
+  it("should compare estimated and actual pomodoros of finished tasks", () => {
+    const task = (id: string, estimatedPomodoros?: number, actual = 0) => ({
+      id,
+      title: `Task ${id}`,
+      state: TaskStates.COMPLETED,
+      priority: "medium",
+      estimatedPomodoros,
+      completedPomodoros: actual,
+      actualFocusTime: actual * 25 * 60_000,
+    });
+    storeData.set("tasks", [
+      task("1", 2, 2),
+      task("2", 2, 4),
+      task("3", 4, 3),
+      task("4", undefined, 5),
+      { ...task("5", 1, 1), state: TaskStates.PENDING },
+    ]);
+
+    const estimates = statistics.getEstimateAccuracy();
+    expect(estimates.tasks.map(({ taskId }) => taskId)).toEqual([
+      "1",
+      "2",
+      "3",
+    ]);
+    expect(estimates.tasks[1]).toEqual({
+      taskId: "2",
+      title: "Task 2",
+      estimatedPomodoros: 2,
+      actualPomodoros: 4,
+      actualFocusMinutes: 100,
+      accuracy: 2,
+    });
+    expect(estimates.averageAccuracy).toBe(1.25);
+    expect(estimates.onTarget).toBe(1);
+    expect(estimates.underestimated).toBe(1);
+    expect(estimates.overestimated).toBe(1);
+  });
+
+  it("should have no average accuracy without estimated tasks", () => {
+    expect(statistics.getEstimateAccuracy()).toEqual({
+      tasks: [],
+      averageAccuracy: null,
+      onTarget: 0,
+      underestimated: 0,
+      overestimated: 0,
+    });
+  });
+});
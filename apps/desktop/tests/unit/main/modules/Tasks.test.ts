@@ -1,15 +1,40 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { getMockElectronStore } from "../../data/stores/mockElectronStore.ts";
 import { Tasks } from "@/main/modules/Tasks.js";
+import { Bus } from "@/main/core/Bus.ts";
+import { type ScheduleSlot } from "@/data/models/Schedule.ts";
+import { type SessionRecord } from "@/data/models/SessionRecord.ts";
+import {
+  Phases,
+  SchedulerEvents,
+  SessionHistoryEvents,
+  SessionStatus,
+  TaskEvents,
+  TaskStates,
+} from "@/shared/enums.ts";
+
+const configValues = new Map<string, unknown>();
+vi.mock("@/main/modules/Config.ts", () => ({
+  config: {
+    get: (key: string) => configValues.get(key),
+  },
+}));
 
 describe("Tasks", () => {
   let tasksInstance: Tasks;
+  let bus: Bus;
+  const { storeData } = getMockElectronStore();
 
   beforeEach(() => {
     vi.useFakeTimers();
+    storeData.clear();
+    configValues.clear();
+    bus = Bus.getInstance("testBus");
     tasksInstance = Tasks.getInstance();
   });
 
   afterEach(() => {
+    bus.destroy();
     tasksInstance.destroy();
     vi.useRealTimers();
   });
@@ -18,5 +43,184 @@ describe("Tasks", () => {
     expect(tasksInstance).toBeInstanceOf(Tasks);
   });
 
-  // Additional tests for Tasks can be added here
+  it("should create a task from bus commands", () => {
+    const changed = vi.fn();
+    bus.on(TaskEvents.CHANGED, changed);
+    bus.emit(TaskEvents.CREATE, { title: "Write report" });
+
+    const [task] = tasksInstance.getTasks();
+    expect(task).toEqual({
+      id: expect.any(String),
+      title: "Write report",
+      state: TaskStates.PENDING,
+      priority: "medium",
+      createdAt: expect.any(Date),
+      updatedAt: expect.any(Date),
+      completedPomodoros: 0,
+      actualFocusTime: 0,
+      tags: [],
+      subtasks: [],
+    });
+    expect(changed).toHaveBeenCalledWith({ tasks: [task] });
+  });
+
+  it("should update, change the state of and delete a task", () => {
+    const task = tasksInstance.createTask({ title: "Write report" });
+
+    bus.emit(TaskEvents.UPDATE, task.id, { ...task, priority: "high" });
+    expect(tasksInstance.getTaskById(task.id)?.priority).toBe("high");
+
+    bus.emit(TaskEvents.SET_STATE, task.id, TaskStates.IN_PROGRESS);
+    expect(tasksInstance.getActiveTask()?.id).toBe(task.id);
+
+    bus.emit(TaskEvents.DELETE, task.id);
+    expect(tasksInstance.getTasks()).toEqual([]);
+  });
+
+  it("should reject updates to unknown tasks", () => {
+    expect(() =>
+      tasksInstance.updateTask("missing", { title: "Missing" }),
+    ).toThrow('Task "missing" not found');
+  });
+
+  it("should prefer the task planned for the current slot", () => {
+    const first = tasksInstance.createTask({
+      title: "Write report",
+      state: TaskStates.IN_PROGRESS,
+    });
+    const planned = tasksInstance.createTask({
+      title: "Review PR",
+      state: TaskStates.IN_PROGRESS,
+    });
+    expect(tasksInstance.getActiveTask()).toEqual(first);
+
+    bus.registerGetter(
+      "schedule:slot:current",
+      () => ({ taskIds: [planned.id] }) as ScheduleSlot,
+    );
+    expect(tasksInstance.getActiveTask()).toEqual(planned);
+  });
+
+  it("should announce task changes when tasks are assigned to a slot", () => {
+    const changed = vi.fn();
+    bus.on(TaskEvents.CHANGED, changed);
+    bus.emit(SchedulerEvents.TASKS_ASSIGNED, { slot: {} as ScheduleSlot });
+    expect(changed).toHaveBeenCalledWith({ tasks: [] });
+  });
+
+  it("should add focus sessions to the task they were spent on", () => {
+    const task = tasksInstance.createTask({
+      title: "Write report",
+      estimatedPomodoros: 2,
+    });
+    const record = (status: SessionStatus, minutes: number) => ({
+      record: {
+        type: Phases.FOCUS,
+        taskId: task.id,
+        actualDuration: minutes * 60_000,
+        status,
+      } as SessionRecord,
+    });
+
+    bus.emit(
+      SessionHistoryEvents.RECORDED,
+      record(SessionStatus.COMPLETED, 25),
+    );
+    bus.emit(
+      SessionHistoryEvents.RECORDED,
+      record(SessionStatus.INTERRUPTED, 10),
+    );
+    bus.emit(SessionHistoryEvents.RECORDED, {
+      record: {
+        ...record(SessionStatus.COMPLETED, 5).record,
+        type: Phases.BREAK,
+      },
+    });
+
+    expect(tasksInstance.getTaskById(task.id)).toMatchObject({
+      estimatedPomodoros: 2,
+      completedPomodoros: 1,
+      actualFocusTime: 35 * 60_000,
+    });
+  });
+
+  it("should keep the tracked focus time when updated with a stale task", () => {
+    const task = tasksInstance.createTask({ title: "Write report" });
+    bus.emit(SessionHistoryEvents.RECORDED, {
+      record: {
+        type: Phases.FOCUS,
+        taskId: task.id,
+        actualDuration: 25 * 60_000,
+        status: SessionStatus.COMPLETED,
+      } as SessionRecord,
+    });
+
+    bus.emit(TaskEvents.UPDATE, task.id, { ...task, title: "Renamed" });
+    expect(tasksInstance.getTaskById(task.id)).toMatchObject({
+      title: "Renamed",
+      completedPomodoros: 1,
+      actualFocusTime: 25 * 60_000,
+    });
+  });
+
+  it("should reject missing and circular subtasks", () => {
+    const subtask = tasksInstance.createTask({ title: "Draft outline" });
+    const parent = tasksInstance.createTask({
+      title: "Write report",
+      subtasks: [subtask.id],
+    });
+
+    expect(() =>
+      tasksInstance.createTask({ title: "Review", subtasks: ["missing"] }),
+    ).toThrow('Task "missing" not found');
+    expect(() =>
+      tasksInstance.updateTask(parent.id, { ...parent, subtasks: [parent.id] }),
+    ).toThrow(`Task "${parent.id}" can't be its own subtask`);
+    expect(() =>
+      tasksInstance.updateTask(subtask.id, {
+        ...subtask,
+        subtasks: [parent.id],
+      }),
+    ).toThrow(`Task "${parent.id}" already contains "${subtask.id}"`);
+  });
+
+  it("should complete parents with their last subtask when enabled", () => {
+    const first = tasksInstance.createTask({ title: "Draft outline" });
+    const second = tasksInstance.createTask({ title: "Write sections" });
+    const parent = tasksInstance.createTask({
+      title: "Write report",
+      subtasks: [first.id, second.id],
+    });
+    const project = tasksInstance.createTask({
+      title: "Quarterly review",
+      subtasks: [parent.id],
+    });
+
+    tasksInstance.setTaskState(first.id, TaskStates.COMPLETED);
+    expect(tasksInstance.getTaskById(parent.id)?.state).toBe(
+      TaskStates.PENDING,
+    );
+
+    configValues.set("completeParentTasks", true);
+    tasksInstance.setTaskState(second.id, TaskStates.COMPLETED);
+    expect(tasksInstance.getTaskById(parent.id)?.state).toBe(
+      TaskStates.COMPLETED,
+    );
+    expect(tasksInstance.getTaskById(project.id)?.state).toBe(
+      TaskStates.COMPLETED,
+    );
+  });
+
+  it("should leave parents alone when rollup is disabled", () => {
+    const subtask = tasksInstance.createTask({ title: "Draft outline" });
+    const parent = tasksInstance.createTask({
+      title: "Write report",
+      subtasks: [subtask.id],
+    });
+
+    tasksInstance.setTaskState(subtask.id, TaskStates.COMPLETED);
+    expect(tasksInstance.getTaskById(parent.id)?.state).toBe(
+      TaskStates.PENDING,
+    );
+  });
 });
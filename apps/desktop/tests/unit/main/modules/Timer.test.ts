@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { Timer } from "@/main/modules/Timer.js";
-import { Phases, TimerEvents } from "@/shared/enums.js";
+import { Phases, TimerActions, TimerEvents } from "@/shared/enums.js";
 import { ModuleFactory } from "@/main/base/ModuleFactory.ts";
+import { TimerStore } from "@/data/stores/TimerStore.ts";
+import { config } from "@/main/modules/Config.ts";
 
 describe("Timer", () => {
   let timerInstance: Timer;
@@ -121,4 +123,615 @@ describe("Timer", () => {
       phase: nextPhase,
     });
   });
+
+  it("should freeze the phase countdown while paused", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(1);
+    timer.setCurrentPhase(1); // FOCUS phase
+    timer.start();
+    vi.advanceTimersByTime(4);
+    timer.pause();
+    expect(timer.isPaused).toBe(true);
+    expect(timer.currentPhase.remainingTime).toBe(6);
+    vi.advanceTimersByTime(50);
+    expect(timer.currentPhase.type).toBe(Phases.FOCUS);
+    expect(timer.currentPhase.elapsedTime).toBe(4);
+    expect(timer.currentPhase.remainingTime).toBe(6);
+  });
+
+  it("should continue counting down from where it was paused", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(1);
+    timer.setCurrentPhase(1); // FOCUS phase
+    timer.start();
+    vi.advanceTimersByTime(4);
+    timer.pause();
+    vi.advanceTimersByTime(50);
+    timer.resume();
+    expect(timer.isPaused).toBe(false);
+    vi.advanceTimersByTime(3);
+    expect(timer.currentPhase.type).toBe(Phases.FOCUS);
+    expect(timer.currentPhase.remainingTime).toBe(3);
+    expect(timer.currentPhase.getPausedDuration()).toBe(50);
+    vi.advanceTimersByTime(3);
+    expect(timer.currentPhase.type).toBe(Phases.BREAK);
+  });
+
+  it("should reset the cycle when stopped", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(1);
+    timer.setCurrentPhase(1); // FOCUS phase
+    timer.start();
+    vi.advanceTimersByTime(12);
+    expect(timer.currentPhase.type).toBe(Phases.BREAK);
+    timer.stop();
+    expect(timer.isRunning).toBe(false);
+    expect(timer.getCurrentPhaseIndex()).toBe(0);
+    expect(timer.currentPhase.getStartTime()).toBe(0);
+    vi.advanceTimersByTime(50);
+    expect(timer.getCurrentPhaseIndex()).toBe(0);
+  });
+
+  it("should emit events when pausing, resuming and stopping", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    const emitSpy = vi.spyOn(timer, "emit");
+    timer.setTickDuration(5);
+    timer.start();
+    timer.pause();
+    expect(emitSpy).toHaveBeenCalledWith(TimerEvents.PAUSED, {
+      phase: timer.currentPhase,
+    });
+    timer.resume();
+    expect(emitSpy).toHaveBeenCalledWith(TimerEvents.RESUMED, {
+      phase: timer.currentPhase,
+    });
+    timer.stop();
+    expect(emitSpy).toHaveBeenCalledWith(TimerEvents.STOPPED, {
+      phase: timer.currentPhase,
+    });
+  });
+
+  it("should be driven by timer actions", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(5);
+    timer.handleAction(TimerActions.START);
+    expect(timer.isRunning).toBe(true);
+    timer.handleAction(TimerActions.PAUSE);
+    expect(timer.isPaused).toBe(true);
+    timer.handleAction(TimerActions.START);
+    expect(timer.isPaused).toBe(false);
+    timer.handleAction(TimerActions.PAUSE);
+    timer.handleAction(TimerActions.RESUME);
+    expect(timer.isPaused).toBe(false);
+    expect(timer.isRunning).toBe(true);
+    timer.handleAction(TimerActions.STOP);
+    expect(timer.isRunning).toBe(false);
+  });
+
+  it("should tick against the phase deadline", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(4);
+    timer.setCurrentPhase(1); // FOCUS phase
+    timer.start();
+    vi.advanceTimersByTime(8);
+    expect(timer.currentPhase.type).toBe(Phases.FOCUS);
+    vi.advanceTimersByTime(2);
+    expect(timer.currentPhase.type).toBe(Phases.BREAK);
+  });
+
+  it("should detect a suspension and report the elapsed phases", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    const emitSpy = vi.spyOn(timer, "emit");
+    timer.setTickDuration(1);
+    timer.setCurrentPhase(1); // FOCUS phase
+    timer.start();
+    const startTime = timer.currentPhase.getStartTime();
+    vi.advanceTimersByTime(3);
+    vi.setSystemTime(Date.now() + 60_000);
+    vi.advanceTimersByTime(1);
+
+    expect(timer.isPaused).toBe(true);
+    expect(timer.currentPhase.type).toBe(Phases.FOCUS);
+    const catchUp = timer.getPendingCatchUp();
+    expect(catchUp).not.toBeNull();
+    expect(catchUp!.suspendedAt).toBe(startTime + 3);
+    expect(catchUp!.elapsedPhases.slice(0, 3)).toEqual([
+      { type: Phases.FOCUS, startTime, endTime: startTime + 10 },
+      {
+        type: Phases.BREAK,
+        startTime: startTime + 10,
+        endTime: startTime + 20,
+      },
+      {
+        type: Phases.PLANNING,
+        startTime: startTime + 20,
+        endTime: startTime + 50,
+      },
+    ]);
+    expect(emitSpy).toHaveBeenCalledWith(TimerEvents.CATCH_UP, catchUp);
+  });
+
+  it("should count the elapsed phases when catching up", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(1);
+    timer.setCurrentPhase(1); // FOCUS phase
+    timer.start();
+    const startTime = timer.currentPhase.getStartTime();
+    vi.advanceTimersByTime(3);
+    vi.setSystemTime(Date.now() + 60_000);
+    vi.advanceTimersByTime(1);
+    timer.resolveCatchUp(true);
+
+    expect(timer.getPendingCatchUp()).toBeNull();
+    expect(timer.isPaused).toBe(false);
+    expect(timer.isRunning).toBe(true);
+    expect(timer.currentPhase.type).toBe(Phases.FOCUS);
+    expect(timer.currentPhase.getStartTime()).toBe(startTime + 60_000);
+  });
+
+  it("should discard the elapsed phases when not catching up", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(1);
+    timer.setCurrentPhase(1); // FOCUS phase
+    timer.start();
+    vi.advanceTimersByTime(3);
+    vi.setSystemTime(Date.now() + 60_000);
+    vi.advanceTimersByTime(1);
+    timer.resolveCatchUp(false);
+
+    expect(timer.isRunning).toBe(true);
+    expect(timer.currentPhase.type).toBe(Phases.FOCUS);
+    expect(timer.currentPhase.remainingTime).toBe(7);
+  });
+
+  it("should resolve a catch-up sent over the bus", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(1);
+    timer.setCurrentPhase(1); // FOCUS phase
+    timer.start();
+    vi.advanceTimersByTime(3);
+    vi.setSystemTime(Date.now() + 60_000);
+    vi.advanceTimersByTime(1);
+    const bus = timer.getBus();
+    expect(bus.getOne("timer:catchup:pending")).toBe(timer.getPendingCatchUp());
+
+    bus.emit(TimerEvents.RESOLVE_CATCH_UP, true);
+    expect(bus.getOne("timer:catchup:pending")).toBeNull();
+    expect(timer.isRunning).toBe(true);
+    expect(timer.isPaused).toBe(false);
+  });
+
+  it("should use the system suspend time when it is known", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(1);
+    timer.setCurrentPhase(1); // FOCUS phase
+    timer.start();
+    const startTime = timer.currentPhase.getStartTime();
+    vi.advanceTimersByTime(2);
+    timer.handleSystemSuspend();
+    vi.setSystemTime(Date.now() + 60_000);
+    timer.handleSystemResume();
+
+    expect(timer.getPendingCatchUp()!.suspendedAt).toBe(startTime + 2);
+  });
+
+  it("should not lose time when the clock is set backwards", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(1);
+    timer.setCurrentPhase(1); // FOCUS phase
+    timer.start();
+    vi.advanceTimersByTime(3);
+    vi.setSystemTime(Date.now() - 60_000);
+    vi.advanceTimersByTime(1);
+
+    expect(timer.getPendingCatchUp()).toBeNull();
+    expect(timer.currentPhase.type).toBe(Phases.FOCUS);
+    expect(timer.currentPhase.remainingTime).toBe(6);
+  });
+
+  it("should emit an overrun event once the grace period is exceeded", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    const emitSpy = vi.spyOn(timer, "emit");
+    timer.setTickDuration(1);
+    timer.setCurrentPhase(0); // PLANNING phase
+    timer.start();
+    vi.advanceTimersByTime(15);
+    expect(emitSpy).not.toHaveBeenCalledWith(
+      TimerEvents.PHASE_OVERRUN,
+      expect.anything(),
+    );
+    vi.advanceTimersByTime(4);
+    const overrunEvents = emitSpy.mock.calls.filter(
+      ([event]) => event === TimerEvents.PHASE_OVERRUN,
+    );
+    expect(overrunEvents).toEqual([
+      [
+        TimerEvents.PHASE_OVERRUN,
+        { phase: timer.currentPhase, overrunTime: 6 },
+      ],
+    ]);
+    expect(emitSpy).toHaveBeenLastCalledWith(TimerEvents.OVERRUN_TICK, {
+      phase: timer.currentPhase,
+      overrunTime: 9,
+    });
+  });
+
+  it("should end an overrunning phase once the overrun cap is reached", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    const emitSpy = vi.spyOn(timer, "emit");
+    timer.setTickDuration(3);
+    timer.setCurrentPhase(0); // PLANNING phase
+    timer.start();
+    const planningPhase = timer.currentPhase;
+    vi.advanceTimersByTime(29);
+    expect(timer.currentPhase.type).toBe(Phases.PLANNING);
+    vi.advanceTimersByTime(1);
+    expect(timer.currentPhase.type).toBe(Phases.FOCUS);
+    expect(emitSpy).toHaveBeenCalledWith(TimerEvents.PHASE_END, {
+      phase: planningPhase,
+    });
+    expect(planningPhase.overrunTime).toBe(20);
+  });
+
+  it("should take a long break after every N focus cycles", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(1);
+    timer.setCurrentPhase(1); // FOCUS phase
+    timer.start();
+    vi.advanceTimersByTime(150);
+    expect(timer.currentPhase.type).toBe(Phases.FOCUS);
+    expect(timer.getCompletedCycles()).toBe(3);
+    vi.advanceTimersByTime(10);
+    expect(timer.currentPhase.type).toBe(Phases.LONG_BREAK);
+    expect(timer.getCompletedCycles()).toBe(4);
+    vi.advanceTimersByTime(50);
+    expect(timer.currentPhase.type).toBe(Phases.PLANNING);
+  });
+
+  it("should not take another long break after skipping a focus phase", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(1);
+    timer.setCurrentPhase(1); // FOCUS phase
+    timer.start();
+    vi.advanceTimersByTime(160);
+    expect(timer.currentPhase.type).toBe(Phases.LONG_BREAK);
+    vi.advanceTimersByTime(50);
+    expect(timer.currentPhase.type).toBe(Phases.PLANNING);
+    vi.advanceTimersByTime(30);
+    expect(timer.currentPhase.type).toBe(Phases.FOCUS);
+
+    timer.skip();
+    expect(timer.getCompletedCycles()).toBe(4);
+    expect(timer.currentPhase.type).toBe(Phases.BREAK);
+  });
+
+  it("should reset the cycle count when stopped", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(1);
+    timer.setCurrentPhase(1); // FOCUS phase
+    timer.start();
+    vi.advanceTimersByTime(10);
+    expect(timer.getCompletedCycles()).toBe(1);
+    timer.stop();
+    expect(timer.getCompletedCycles()).toBe(0);
+  });
+
+  it("should persist its state when a phase starts", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    const saveSpy = vi.spyOn(TimerStore.getInstance(), "saveState");
+    timer.setCurrentPhase(1); // FOCUS phase
+    timer.start();
+    expect(saveSpy).toHaveBeenCalledWith({
+      phaseIndex: 1,
+      startTime: timer.currentPhase.getStartTime(),
+      pausedAt: 0,
+      pausedDuration: 0,
+      extendedTime: 0,
+      completedCycles: 0,
+      lastLongBreakCycles: 0,
+      savedAt: Date.now(),
+    });
+    saveSpy.mockRestore();
+  });
+
+  it("should clear its persisted state when stopped", () => {
+    const timer = Timer.getInstance();
+    const clearSpy = vi.spyOn(TimerStore.getInstance(), "clearState");
+    timer.stop();
+    expect(clearSpy).toHaveBeenCalled();
+    clearSpy.mockRestore();
+  });
+
+  it("should resume an in-flight phase on restore", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(1);
+    const getStateSpy = vi
+      .spyOn(TimerStore.getInstance(), "getState")
+      .mockReturnValue({
+        phaseIndex: 1,
+        startTime: Date.now() - 4,
+        pausedAt: 0,
+        pausedDuration: 0,
+        extendedTime: 0,
+        completedCycles: 2,
+        lastLongBreakCycles: 0,
+        savedAt: Date.now() - 2,
+      });
+    timer.restoreState();
+    expect(timer.currentPhase.type).toBe(Phases.FOCUS);
+    expect(timer.isRunning).toBe(true);
+    expect(timer.getCompletedCycles()).toBe(2);
+    expect(timer.currentPhase.remainingTime).toBe(6);
+    vi.advanceTimersByTime(6);
+    expect(timer.currentPhase.type).toBe(Phases.BREAK);
+    getStateSpy.mockRestore();
+  });
+
+  it("should restore a paused phase without resuming it", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    const getStateSpy = vi
+      .spyOn(TimerStore.getInstance(), "getState")
+      .mockReturnValue({
+        phaseIndex: 1,
+        startTime: Date.now() - 60_000,
+        pausedAt: Date.now() - 59_997,
+        pausedDuration: 0,
+        extendedTime: 0,
+        completedCycles: 0,
+        lastLongBreakCycles: 0,
+        savedAt: Date.now() - 59_997,
+      });
+    timer.restoreState();
+    expect(timer.isPaused).toBe(true);
+    expect(timer.isRunning).toBe(false);
+    expect(timer.currentPhase.remainingTime).toBe(7);
+    getStateSpy.mockRestore();
+  });
+
+  it("should offer to mark a phase interrupted if its window has passed", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    const emitSpy = vi.spyOn(timer, "emit");
+    const getStateSpy = vi
+      .spyOn(TimerStore.getInstance(), "getState")
+      .mockReturnValue({
+        phaseIndex: 1,
+        startTime: Date.now() - 60_000,
+        pausedAt: 0,
+        pausedDuration: 0,
+        extendedTime: 0,
+        completedCycles: 1,
+        lastLongBreakCycles: 0,
+        savedAt: Date.now() - 59_997,
+      });
+    timer.restoreState();
+    const interruption = timer.getPendingInterruption();
+    expect(interruption).toEqual({
+      phase: timer.currentPhase,
+      savedAt: Date.now() - 59_997,
+    });
+    expect(emitSpy).toHaveBeenCalledWith(TimerEvents.INTERRUPTED, interruption);
+    expect(timer.isRunning).toBe(false);
+
+    timer.resolveInterruption(true);
+    expect(timer.getPendingInterruption()).toBeNull();
+    expect(timer.getCompletedCycles()).toBe(1);
+    expect(timer.currentPhase.type).toBe(Phases.BREAK);
+    expect(timer.isRunning).toBe(false);
+    getStateSpy.mockRestore();
+  });
+
+  it("should continue an interrupted phase if it is not marked", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    const getStateSpy = vi
+      .spyOn(TimerStore.getInstance(), "getState")
+      .mockReturnValue({
+        phaseIndex: 1,
+        startTime: Date.now() - 60_000,
+        pausedAt: 0,
+        pausedDuration: 0,
+        extendedTime: 0,
+        completedCycles: 1,
+        lastLongBreakCycles: 0,
+        savedAt: Date.now() - 59_997,
+      });
+    timer.restoreState();
+    timer.resolveInterruption(false);
+    expect(timer.isRunning).toBe(true);
+    expect(timer.currentPhase.type).toBe(Phases.FOCUS);
+    expect(timer.currentPhase.remainingTime).toBe(7);
+    getStateSpy.mockRestore();
+  });
+
+  it("should resolve an interruption sent over the bus", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    const getStateSpy = vi
+      .spyOn(TimerStore.getInstance(), "getState")
+      .mockReturnValue({
+        phaseIndex: 1,
+        startTime: Date.now() - 60_000,
+        pausedAt: 0,
+        pausedDuration: 0,
+        extendedTime: 0,
+        completedCycles: 1,
+        lastLongBreakCycles: 0,
+        savedAt: Date.now() - 59_997,
+      });
+    timer.restoreState();
+    const bus = timer.getBus();
+    // Windows open after the restore and ask for it
+    expect(bus.getOne("timer:interruption:pending")).toEqual({
+      phase: timer.currentPhase,
+      savedAt: Date.now() - 59_997,
+    });
+
+    bus.emit(TimerEvents.RESOLVE_INTERRUPTION, true);
+    expect(bus.getOne("timer:interruption:pending")).toBeNull();
+    expect(timer.getCompletedCycles()).toBe(1);
+    expect(timer.currentPhase.type).toBe(Phases.BREAK);
+    getStateSpy.mockRestore();
+  });
+
+  it("should skip to the next phase", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(5);
+    timer.setCurrentPhase(2); // BREAK phase
+    timer.start();
+    vi.advanceTimersByTime(5);
+    const breakPhase = timer.currentPhase;
+    timer.handleAction(TimerActions.SKIP);
+    expect(breakPhase.wasInterrupted).toBe(true);
+    expect(timer.currentPhase.type).toBe(Phases.PLANNING);
+    expect(timer.currentPhase.remainingTime).toBe(10);
+  });
+
+  it("should extend the current phase", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    const emitSpy = vi.spyOn(timer, "emit");
+    timer.setTickDuration(5);
+    timer.setCurrentPhase(2); // BREAK phase
+    timer.start();
+    vi.advanceTimersByTime(5);
+    timer.handleAction(TimerActions.EXTEND, 20);
+    expect(timer.currentPhase.remainingTime).toBe(25);
+    expect(emitSpy).toHaveBeenCalledWith(TimerEvents.EXTENDED, {
+      phase: timer.currentPhase,
+      duration: 20,
+    });
+    vi.advanceTimersByTime(20);
+    expect(timer.currentPhase.type).toBe(Phases.BREAK);
+    vi.advanceTimersByTime(5);
+    expect(timer.currentPhase.type).toBe(Phases.PLANNING);
+    expect(timer.currentPhase.allocatedTime).toBe(10);
+  });
+
+  it("should preview the next phase", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setCurrentPhase(2); // BREAK phase
+    expect(timer.getNextPhaseSnapshot()).toMatchObject({
+      type: Phases.PLANNING,
+      allocatedTime: 10,
+      isActive: false,
+    });
+  });
+
+  it("should start the planned phase when a schedule block starts", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(5);
+    const startTime = Date.now() - 4;
+    timer.handleBlockStart({
+      block: { startTime: new Date(startTime), endTime: new Date() },
+      slot: {
+        id: "1",
+        type: Phases.FOCUS,
+        allocatedTime: 10,
+        startTime: new Date(startTime),
+        endTime: new Date(startTime + 10),
+        taskIds: [],
+      },
+      completedCycles: 2,
+    });
+    expect(timer.isRunning).toBe(true);
+    expect(timer.currentPhase.type).toBe(Phases.FOCUS);
+    expect(timer.currentPhase.remainingTime).toBe(6);
+    expect(timer.getCompletedCycles()).toBe(2);
+
+    timer.handleBlockEnd({
+      block: { startTime: new Date(startTime), endTime: new Date() },
+    });
+    expect(timer.isRunning).toBe(false);
+    expect(timer.currentPhase.type).toBe(Phases.PLANNING);
+  });
+
+  it("should complete the last phase when it ends with the block", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(5);
+    const startTime = Date.now();
+    const block = {
+      startTime: new Date(startTime),
+      endTime: new Date(startTime + 10),
+    };
+    const blockStart = {
+      block,
+      slot: {
+        id: "1",
+        type: Phases.FOCUS,
+        allocatedTime: 10,
+        startTime: new Date(startTime),
+        endTime: new Date(startTime + 10),
+        taskIds: [],
+      },
+      completedCycles: 0,
+    };
+    const ended: boolean[] = [];
+    timer.on(TimerEvents.PHASE_END, ({ phase }) =>
+      ended.push(phase.wasInterrupted),
+    );
+
+    // The block end comes before the final tick
+    timer.handleBlockStart(blockStart);
+    vi.setSystemTime(block.endTime);
+    timer.handleBlockEnd({ block });
+    expect(ended).toEqual([false]);
+
+    // The final tick comes first and starts the next phase
+    ended.length = 0;
+    vi.setSystemTime(startTime);
+    timer.handleBlockStart(blockStart);
+    vi.advanceTimersByTime(10);
+    expect(timer.currentPhase.type).toBe(Phases.BREAK);
+    timer.handleBlockEnd({ block });
+    expect(ended).toEqual([false]);
+    expect(timer.isRunning).toBe(false);
+  });
+
+  it("should reload phases when they change in the config", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    const phases = config.get("phases");
+    config.set("phases", [{ type: Phases.FOCUS, allocatedTime: 20 }]);
+    expect(timer.phases.map((phase) => phase.type)).toEqual([Phases.FOCUS]);
+    config.set("phases", phases);
+    expect(timer.phases).toHaveLength(phases.length);
+  });
+
+  it("should wait for a running session to stop before reloading phases", () => {
+    const timer = Timer.getInstance();
+    timer.stop();
+    timer.setTickDuration(5);
+    timer.start();
+    const phases = config.get("phases");
+    config.set("phases", [{ type: Phases.FOCUS, allocatedTime: 20 }]);
+    expect(timer.phases).toHaveLength(phases.length);
+    timer.stop();
+    expect(timer.phases.map((phase) => phase.type)).toEqual([Phases.FOCUS]);
+    config.set("phases", phases);
+  });
 });
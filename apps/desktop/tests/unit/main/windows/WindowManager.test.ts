@@ -1,7 +1,15 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { WindowManager } from "@/main/windows/WindowManager.ts";
 import { BrowserWindow } from "electron";
-import { WindowType } from "@/shared/enums.ts";
+import { type DailyPlanning } from "@/data/models/DailyPlanning.ts";
+import { type Phase } from "@/main/modules/Phase.ts";
+import {
+  DailyPlanningEvents,
+  Phases,
+  SettingsEvents,
+  TimerEvents,
+  WindowType,
+} from "@/shared/enums.ts";
 
 describe("WindowManager", () => {
   let windowManager: WindowManager;
@@ -38,4 +46,82 @@ describe("WindowManager", () => {
     expect(BrowserWindow).toHaveBeenCalled();
     expect(windowManager.getCurrentWindow()!.type).toBe(WindowType.PLANNING);
   });
+
+  it("should open a single settings window", () => {
+    windowManager.getBus().emit(SettingsEvents.OPEN);
+    const settingsWindow = windowManager.getSettingsWindow();
+    expect(settingsWindow!.type).toBe(WindowType.Settings);
+    expect(settingsWindow!.routerPath).toBe("/settings");
+    settingsWindow!.window.isDestroyed = vi.fn(() => false);
+    settingsWindow!.window.focus = vi.fn();
+    windowManager.openSettingsWindow();
+    expect(windowManager.getSettingsWindow()).toBe(settingsWindow);
+    expect(settingsWindow!.window.focus).toHaveBeenCalled();
+  });
+
+  it("should open the daily planning window on the first launch of the day", () => {
+    const previousWindow = windowManager.getDailyPlanningWindow();
+    if (previousWindow) previousWindow.window.isDestroyed = vi.fn(() => true);
+    vi.spyOn(windowManager, "isDailyPlanningDone").mockReturnValue(false);
+    windowManager.launchStartupWindows();
+    const planningWindow = windowManager.getDailyPlanningWindow();
+    expect(planningWindow).not.toBe(previousWindow);
+    expect(planningWindow!.type).toBe(WindowType.DailyPlanning);
+    expect(planningWindow!.routerPath).toBe("/daily-planning");
+
+    planningWindow!.closeWindow = vi.fn();
+    windowManager.getBus().emit(DailyPlanningEvents.SAVED, {
+      planning: {} as DailyPlanning,
+    });
+    expect(planningWindow!.closeWindow).toHaveBeenCalled();
+  });
+
+  it("should skip daily planning once the day is planned", () => {
+    vi.spyOn(windowManager, "isDailyPlanningDone").mockReturnValue(true);
+    vi.spyOn(windowManager, "openDailyPlanningWindow");
+    windowManager.launchStartupWindows();
+    expect(windowManager.openDailyPlanningWindow).not.toHaveBeenCalled();
+  });
+
+  it("should open session planning for each planning phase", () => {
+    const bus = windowManager.getBus();
+    bus.emit(TimerEvents.PHASE_START, {
+      phase: { type: Phases.FOCUS } as Phase,
+    });
+    expect(windowManager.getSessionPlanningWindow()).toBeNull();
+
+    bus.emit(TimerEvents.PHASE_START, {
+      phase: { type: Phases.PLANNING } as Phase,
+    });
+    const sessionWindow = windowManager.getSessionPlanningWindow();
+    expect(sessionWindow!.type).toBe(WindowType.SessionPlanning);
+    expect(sessionWindow!.routerPath).toBe("/session-planning");
+
+    sessionWindow!.closeWindow = vi.fn();
+    bus.emit(TimerEvents.PHASE_END, {
+      phase: { type: Phases.PLANNING } as Phase,
+    });
+    expect(sessionWindow!.closeWindow).toHaveBeenCalled();
+  });
+
+  it("should open the break screen for each break", () => {
+    const bus = windowManager.getBus();
+    bus.emit(TimerEvents.PHASE_START, {
+      phase: { type: Phases.FOCUS } as Phase,
+    });
+    expect(windowManager.getBreakWindow()).toBeNull();
+
+    bus.emit(TimerEvents.PHASE_START, {
+      phase: { type: Phases.LONG_BREAK } as Phase,
+    });
+    const breakWindow = windowManager.getBreakWindow();
+    expect(breakWindow!.type).toBe(WindowType.BreakScreen);
+    expect(breakWindow!.routerPath).toBe("/break");
+
+    breakWindow!.closeWindow = vi.fn();
+    bus.emit(TimerEvents.PHASE_END, {
+      phase: { type: Phases.LONG_BREAK } as Phase,
+    });
+    expect(breakWindow!.closeWindow).toHaveBeenCalled();
+  });
 });
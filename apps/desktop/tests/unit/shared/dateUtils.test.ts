@@ -29,4 +29,57 @@ describe("DateUtils", () => {
     expect(date.getMonth()).toBe(today.getMonth());
     expect(date.getFullYear()).toBe(today.getFullYear());
   });
+
+  it("should resolve times on an explicit day and time zone", () => {
+    const day = new Date("2025-06-02T03:00:00Z");
+    expect(dateUtils.timeToDate("09:00", day, "Asia/Tokyo")).toEqual(
+      new Date("2025-06-02T00:00:00Z"),
+    );
+    expect(dateUtils.toDateKey(day, "America/Los_Angeles")).toBe("2025-06-01");
+    expect(dateUtils.dayAsName(day, "America/Los_Angeles")).toBe("Sunday");
+  });
+
+  it("should end overnight ranges on the next day", () => {
+    const range = dateUtils.timeRange(
+      "22:00",
+      "02:00",
+      new Date("2025-06-02T12:00:00Z"),
+      "Europe/Berlin",
+    );
+    expect(range).toEqual({
+      startTime: new Date("2025-06-02T20:00:00Z"),
+      endTime: new Date("2025-06-03T00:00:00Z"),
+    });
+  });
+
+  it("should measure real time across DST transitions", () => {
+    const springForward = new Date("2025-03-09T12:00:00Z");
+    const fallBack = new Date("2025-11-02T12:00:00Z");
+    const zone = "America/New_York";
+    expect(
+      dateUtils.timeDifferenceInMs("00:00", "04:00", springForward, zone),
+    ).toBe(3 * 60 * 60_000);
+    expect(dateUtils.timeDifferenceInMs("00:00", "04:00", fallBack, zone)).toBe(
+      5 * 60 * 60_000,
+    );
+    expect(
+      dateUtils.endOfDay(springForward, zone).getTime() -
+        dateUtils.startOfDay(springForward, zone).getTime(),
+    ).toBe(23 * 60 * 60_000);
+  });
+
+  it("should move times skipped by DST forward and pick the first repeated time", () => {
+    const zone = "America/New_York";
+    expect(dateUtils.zonedDateTime("2025-03-09", "02:30", zone)).toEqual(
+      new Date("2025-03-09T07:30:00Z"),
+    );
+    expect(dateUtils.zonedDateTime("2025-11-02", "01:30", zone)).toEqual(
+      new Date("2025-11-02T05:30:00Z"),
+    );
+  });
+
+  it("should add days to date keys across month and year ends", () => {
+    expect(dateUtils.addDaysToKey("2025-12-31", 1)).toBe("2026-01-01");
+    expect(dateUtils.addDaysToKey("2024-03-01", -1)).toBe("2024-02-29");
+  });
 });
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { mergeHolidays, parseIcsHolidays } from "@/shared/icsUtils.ts";
+
+const calendar = (...lines: string[]) =>
+  ["BEGIN:VCALENDAR", "VERSION:2.0", ...lines, "END:VCALENDAR"].join("\r\n");
+
+describe("IcsUtils", () => {
+  it("should read all-day events as holidays", () => {
+    const holidays = parseIcsHolidays(
+      calendar(
+        "BEGIN:VEVENT",
+        "DTSTART;VALUE=DATE:20251225",
+        "DTEND;VALUE=DATE:20251226",
+        "SUMMARY:Christmas Day",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "DTSTART:20250101",
+        "SUMMARY:New Year's Day",
+        "END:VEVENT",
+      ),
+    );
+    expect(holidays).toEqual([
+      { date: "2025-12-25", name: "Christmas Day" },
+      { date: "2025-01-01", name: "New Year's Day" },
+    ]);
+  });
+
+  it("should expand multi-day events up to their exclusive end", () => {
+    const holidays = parseIcsHolidays(
+      calendar(
+        "BEGIN:VEVENT",
+        "DTSTART;VALUE=DATE:20251231",
+        "DTEND;VALUE=DATE:20260102",
+        "SUMMARY:Winter closure",
+        "END:VEVENT",
+      ),
+    );
+    expect(holidays.map(({ date }) => date)).toEqual([
+      "2025-12-31",
+      "2026-01-01",
+    ]);
+  });
+
+  it("should unfold long lines and unescape text", () => {
+    const holidays = parseIcsHolidays(
+      calendar(
+        "BEGIN:VEVENT",
+        "DTSTART;VALUE=DATE:20250501",
+        "SUMMARY:Labour Day\\, also",
+        "  known as May Day",
+        "END:VEVENT",
+      ),
+    );
+    expect(holidays).toEqual([
+      { date: "2025-05-01", name: "Labour Day, also known as May Day" },
+    ]);
+  });
+
+  it("should skip timed events", () => {
+    expect(
+      parseIcsHolidays(
+        calendar(
+          "BEGIN:VEVENT",
+          "DTSTART:20250101T090000Z",
+          "DTEND:20250101T100000Z",
+          "SUMMARY:Team meeting",
+          "END:VEVENT",
+          "BEGIN:VEVENT",
+          "DTSTART;TZID=Europe/Paris:20250102T090000",
+          "SUMMARY:Standup",
+          "END:VEVENT",
+          "BEGIN:VEVENT",
+          "DTSTART;VALUE=DATE-TIME:20250103T090000",
+          "SUMMARY:Review",
+          "END:VEVENT",
+        ),
+      ),
+    ).toEqual([]);
+  });
+
+  it("should skip events without a start date", () => {
+    expect(
+      parseIcsHolidays(
+        calendar("BEGIN:VEVENT", "SUMMARY:Someday", "END:VEVENT"),
+      ),
+    ).toEqual([]);
+  });
+
+  it("should keep existing holidays when merging", () => {
+    expect(
+      mergeHolidays(
+        [{ date: "2025-12-25", name: "Christmas" }],
+        [
+          { date: "2025-12-26", name: "Boxing Day" },
+          { date: "2025-12-25", name: "Christmas Day" },
+        ],
+      ),
+    ).toEqual([
+      { date: "2025-12-25", name: "Christmas" },
+      { date: "2025-12-26", name: "Boxing Day" },
+    ]);
+  });
+});
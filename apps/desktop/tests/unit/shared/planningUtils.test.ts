@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  clampPlannedPomodoros,
+  getDefaultPlannedPomodoros,
+  getPlanningFit,
+  MAX_PLANNED_POMODOROS,
+} from "@/shared/planningUtils.ts";
+import { PlannedTaskSchema } from "@/data/models/DailyPlanning.ts";
+import { type ScheduleSlot } from "@/data/models/Schedule.ts";
+import { Phases } from "@/shared/enums.ts";
+
+const slot = (type: Phases, hour: number): ScheduleSlot => ({
+  id: `${type}-${hour}`,
+  type,
+  allocatedTime: 25 * 60_000,
+  startTime: new Date(2025, 5, 2, hour, 0),
+  endTime: new Date(2025, 5, 2, hour, 25),
+  taskIds: [],
+});
+
+const slots = [
+  slot(Phases.PLANNING, 8),
+  slot(Phases.FOCUS, 9),
+  slot(Phases.BREAK, 10),
+  slot(Phases.FOCUS, 11),
+  slot(Phases.FOCUS, 12),
+];
+
+describe("PlanningUtils", () => {
+  it("should fill focus slots with the planned tasks in order", () => {
+    const fit = getPlanningFit(
+      [
+        { taskId: "a", estimatedPomodoros: 2 },
+        { taskId: "b", estimatedPomodoros: 1 },
+      ],
+      slots,
+    );
+    expect(fit.estimatedPomodoros).toBe(3);
+    expect(fit.availablePomodoros).toBe(3);
+    expect(fit.overCommittedBy).toBe(0);
+    expect(fit.tasks[0].slots.map(({ id }) => id)).toEqual([
+      "focus-9",
+      "focus-11",
+    ]);
+    expect(fit.tasks[1].slots.map(({ id }) => id)).toEqual(["focus-12"]);
+  });
+
+  it("should report over-commitment", () => {
+    const fit = getPlanningFit(
+      [
+        { taskId: "a", estimatedPomodoros: 2 },
+        { taskId: "b", estimatedPomodoros: 3 },
+      ],
+      slots,
+    );
+    expect(fit.overCommittedBy).toBe(2);
+    expect(fit.tasks[1]).toEqual({
+      taskId: "b",
+      slots: [slots[4]],
+      missingPomodoros: 2,
+    });
+  });
+
+  it("should plan what is left of a task's estimate", () => {
+    expect(
+      getDefaultPlannedPomodoros({
+        estimatedPomodoros: 5,
+        completedPomodoros: 2,
+      }),
+    ).toBe(3);
+    expect(getDefaultPlannedPomodoros({ completedPomodoros: 0 })).toBe(1);
+    expect(
+      getDefaultPlannedPomodoros({
+        estimatedPomodoros: 2,
+        completedPomodoros: 4,
+      }),
+    ).toBe(1);
+  });
+
+  it("should cap the planned pomodoros of large tasks to a day", () => {
+    const estimatedPomodoros = getDefaultPlannedPomodoros({
+      estimatedPomodoros: 40,
+      completedPomodoros: 0,
+    });
+    expect(estimatedPomodoros).toBe(MAX_PLANNED_POMODOROS);
+    expect(clampPlannedPomodoros(99)).toBe(MAX_PLANNED_POMODOROS);
+    expect(
+      PlannedTaskSchema.safeParse({ taskId: "a", estimatedPomodoros }).success,
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  getAvailabilityErrors,
+  getTimeBlockErrors,
+  isValidTime,
+} from "@/shared/scheduleUtils.ts";
+
+describe("ScheduleUtils", () => {
+  it("should accept HH:mm times only", () => {
+    expect(isValidTime("09:30")).toBe(true);
+    expect(isValidTime("23:59")).toBe(true);
+    expect(isValidTime("9:30")).toBe(false);
+    expect(isValidTime("24:00")).toBe(false);
+    expect(isValidTime("12:60")).toBe(false);
+  });
+
+  it("should accept separate time blocks", () => {
+    expect(
+      getTimeBlockErrors([
+        { startTime: "13:00", endTime: "17:00" },
+        { startTime: "09:00", endTime: "13:00" },
+      ]),
+    ).toEqual([]);
+  });
+
+  it("should reject blocks that start and end at the same time", () => {
+    expect(
+      getTimeBlockErrors([{ startTime: "10:00", endTime: "10:00" }]),
+    ).toEqual(["Block 1 must end at a different time"]);
+  });
+
+  it("should accept overnight blocks that don't overlap", () => {
+    expect(
+      getTimeBlockErrors([
+        { startTime: "22:00", endTime: "02:00" },
+        { startTime: "09:00", endTime: "12:00" },
+      ]),
+    ).toEqual([]);
+    expect(
+      getTimeBlockErrors([
+        { startTime: "20:00", endTime: "23:00" },
+        { startTime: "22:00", endTime: "01:00" },
+      ]),
+    ).toEqual(["Block 1 overlaps block 2"]);
+  });
+
+  it("should report overnight blocks running into the next day", () => {
+    expect(
+      getAvailabilityErrors([
+        {
+          day: "Sunday",
+          timeBlocks: [{ startTime: "23:00", endTime: "03:00" }],
+        },
+        {
+          day: "Monday",
+          timeBlocks: [{ startTime: "02:00", endTime: "04:00" }],
+        },
+        {
+          day: "Tuesday",
+          timeBlocks: [{ startTime: "03:00", endTime: "04:00" }],
+        },
+      ]),
+    ).toEqual(["Sunday block 1 runs into Monday block 1"]);
+  });
+
+  it("should reject malformed times", () => {
+    expect(getTimeBlockErrors([{ startTime: "", endTime: "09:00" }])).toEqual([
+      "Block 1 must use HH:mm times",
+    ]);
+  });
+
+  it("should report overlapping blocks", () => {
+    expect(
+      getTimeBlockErrors([
+        { startTime: "11:00", endTime: "14:00" },
+        { startTime: "09:00", endTime: "12:00" },
+      ]),
+    ).toEqual(["Block 2 overlaps block 1"]);
+  });
+});